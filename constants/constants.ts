@@ -369,6 +369,7 @@ export const BYTES_ZERO =
 export const VOL_ORACLE = "0x4df938e57fD4Ad1dFDdDEEb1B4cFAbAB19E33A0E";
 
 export const MANUAL_VOL_ORACLE = {
+  [CHAINID.POLYGON_MAINNET]: "0x923566D125f69dc3eD2fa35dC74a5A0B8352936d",
   [CHAINID.ETH_MAINNET]: "0x7c0BFaB993fBD54deaDf43AdFF960E9c9e116399",
   [CHAINID.AVAX_MAINNET]: "0xFdA869C4A950bFD2e393dDD45D2062Dd4aEE0bB3",
   [CHAINID.AVAX_FUJI]: "0xE1dA859E60F564f5e976e6A2BC201C22C81C4Fc0",
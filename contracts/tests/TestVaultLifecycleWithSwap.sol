@@ -0,0 +1,14 @@
+// SPDX-License-Identifier: MIT
+pragma solidity =0.8.4;
+
+import {VaultLifecycleWithSwap} from "../libraries/VaultLifecycleWithSwap.sol";
+
+contract TestVaultLifecycleWithSwap {
+    function getNextFriday(uint256 timestamp)
+        external
+        pure
+        returns (uint256 nextFriday)
+    {
+        return VaultLifecycleWithSwap.getNextFriday(timestamp);
+    }
+}
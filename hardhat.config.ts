@@ -9,8 +9,16 @@ import "solidity-coverage";
 import "hardhat-gas-reporter";
 import exportDeployments from "./scripts/tasks/exportDeployments";
 import verifyContracts from "./scripts/tasks/verifyContracts";
+import keeperDryRun from "./scripts/tasks/keeperDryRun";
+import tokenList from "./scripts/tasks/tokenList";
+import publishTokenList from "./scripts/tasks/publishTokenList";
+import safeBatch from "./scripts/tasks/safeBatch";
+import auctionOrders from "./scripts/tasks/auctionOrders";
+import approveStrikes from "./scripts/tasks/approveStrikes";
+import preflight from "./scripts/tasks/preflight";
 import { BLOCK_NUMBER } from "./constants/constants";
 import { TEST_URI } from "./scripts/helpers/getDefaultEthersProvider";
+import { getHardhatAccounts } from "./scripts/helpers/signers";
 
 require("dotenv").config();
 
@@ -53,7 +61,7 @@ export default {
       deploy: ["scripts/deploy_polygon"],
       loggingEnabled: true,
       gasPrice: 100000000000,
-      accounts: process.env.PK.split(",")
+      accounts: getHardhatAccounts("polygon"),
     },
     polygon_test: {
       url: process.env.POLYGON_URI,
@@ -67,30 +75,22 @@ export default {
     mainnet: {
       url: process.env.TEST_URI,
       chainId: CHAINID,
-      accounts: {
-        mnemonic: process.env.MAINNET_MNEMONIC,
-      },
+      accounts: getHardhatAccounts("mainnet"),
     },
     kovan: {
       url: process.env.KOVAN_URI,
       chainId: 42,
-      accounts: {
-        mnemonic: process.env.KOVAN_MNEMONIC,
-      },
+      accounts: getHardhatAccounts("kovan"),
     },
     avax: {
       url: process.env.AVAX_URI,
       chainId: 43114,
-      accounts: {
-        mnemonic: process.env.AVAX_MNEMONIC,
-      },
+      accounts: getHardhatAccounts("avax"),
     },
     fuji: {
       url: process.env.FUJI_URI,
       chainId: 43113,
-      accounts: {
-        mnemonic: process.env.FUJI_MNEMONIC,
-      },
+      accounts: getHardhatAccounts("fuji"),
     },
   },
   namedAccounts: {
@@ -158,3 +158,40 @@ export default {
 
 task("export-deployments", "Exports deployments into JSON", exportDeployments);
 task("verify-contracts", "Verify solidity source", verifyContracts);
+task(
+  "keeper-dry-run",
+  "Replays the keeper's vault steps on a fork without broadcasting",
+  keeperDryRun
+);
+task("token-list", "Writes the oToken list of each chain")
+  .addOptionalParam("chainids", "Comma separated chain IDs, CHAINID by default")
+  .addOptionalParam("dir", "Output directory, TOKEN_LIST_DIR by default")
+  .addOptionalParam("logo", "Logo URI of the list and its tokens")
+  .setAction(tokenList);
+task("publish-token-list", "Commits and pushes the written token lists")
+  .addOptionalParam("dir", "Token list repository, TOKEN_LIST_DIR by default")
+  .addOptionalParam("remote", "Remote to push to", "origin")
+  .addOptionalParam("branch", "Branch to push to", "main")
+  .setAction(publishTokenList);
+task("safe-batch", "Writes fork-checked Safe batches of vault owner changes")
+  .addParam("changes", "JSON file listing the vault changes")
+  .addOptionalParam("out", "Output directory", "safe-batches")
+  .setAction(safeBatch);
+task("auction-orders", "Places, lists or cancels orders in a vault's auction")
+  .addPositionalParam("action", "place, list or cancel")
+  .addParam("vault", "Vault name in the deployments, or its address")
+  .addOptionalParam("price", "Bid price per option in the bidding token")
+  .addOptionalParam("premium", "Total bid premium in the bidding token")
+  .addOptionalParam("options", "Options to bid for, the whole auction by default")
+  .addOptionalParam("orders", "Comma separated order IDs to cancel, all by default")
+  .addOptionalParam("from", "Account to impersonate on a Hardhat fork")
+  .setAction(auctionOrders);
+task("approve-strikes", "Lists, approves or rejects the keeper's manual strikes")
+  .addPositionalParam("action", "list, approve or reject")
+  .addOptionalParam("vaults", "Comma separated vault names, all awaiting approval by default")
+  .addOptionalParam("chainid", "Chain ID of the keeper, CHAINID by default")
+  .setAction(approveStrikes);
+task("preflight", "Checks the vol oracle and Chainlink feeds the vaults' pricers read")
+  .addOptionalParam("vaults", "Comma separated vault names, all by default")
+  .addOptionalParam("chainid", "Chain ID of the keeper, CHAINID by default")
+  .setAction(preflight);
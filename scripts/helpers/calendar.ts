@@ -0,0 +1,146 @@
+/**
+ * Port of contracts/libraries/DateTime.sol and the expiry rules built on it.
+ * All maths is integer division on UTC unix seconds, matching the Solidity libraries.
+ */
+
+const SECONDS_PER_DAY = 24 * 60 * 60;
+const WEEK = 7 * SECONDS_PER_DAY;
+const EXPIRY_HOUR = 8; // oTokens expire at 8am UTC
+const OFFSET19700101 = 2440588;
+
+const div = (a: number, b: number) => Math.trunc(a / b);
+
+const daysFromDate = (year: number, month: number, day: number) =>
+  day -
+  32075 +
+  div(1461 * (year + 4800 + div(month - 14, 12)), 4) +
+  div(367 * (month - 2 - div(month - 14, 12) * 12), 12) -
+  div(3 * div(year + 4900 + div(month - 14, 12), 100), 4) -
+  OFFSET19700101;
+
+const daysToDate = (days: number) => {
+  let L = days + 68569 + OFFSET19700101;
+  const N = div(4 * L, 146097);
+  L -= div(146097 * N + 3, 4);
+  let year = div(4000 * (L + 1), 1461001);
+  L = L - div(1461 * year, 4) + 31;
+  let month = div(80 * L, 2447);
+  const day = L - div(2447 * month, 80);
+  L = div(month, 11);
+  month = month + 2 - 12 * L;
+  year = 100 * (N - 49) + year + L;
+  return { year, month, day };
+};
+
+// 1 = Monday, 7 = Sunday
+export const getDayOfWeek = (timestamp: number) =>
+  ((div(timestamp, SECONDS_PER_DAY) + 3) % 7) + 1;
+
+export const getYear = (timestamp: number) =>
+  daysToDate(div(timestamp, SECONDS_PER_DAY)).year;
+
+export const getMonth = (timestamp: number) =>
+  daysToDate(div(timestamp, SECONDS_PER_DAY)).month;
+
+export const timestampFromDate = (year: number, month: number, day: number) =>
+  daysFromDate(year, month, day) * SECONDS_PER_DAY;
+
+export const getThisWeekFriday = (timestamp: number) =>
+  timestamp + 5 * SECONDS_PER_DAY - getDayOfWeek(timestamp) * SECONDS_PER_DAY;
+
+// DateTime.getNextFriday, the same time of day on the coming Friday
+export const getNextFriday = (timestamp: number) => {
+  const friday = getThisWeekFriday(timestamp);
+  return friday >= timestamp ? friday : friday + WEEK;
+};
+
+export const getLastDayOfMonth = (timestamp: number) =>
+  timestampFromDate(getYear(timestamp), getMonth(timestamp) + 1, 1) -
+  SECONDS_PER_DAY;
+
+export const getMonthLastFriday = (timestamp: number) => {
+  const lastDay = getLastDayOfMonth(timestamp);
+  const friday = getThisWeekFriday(lastDay);
+  return friday > lastDay ? friday - WEEK : friday;
+};
+
+export const getQuarterLastFriday = (timestamp: number) => {
+  const quarterMonth = Math.ceil(getMonth(timestamp) / 3) * 3;
+  return getMonthLastFriday(
+    timestampFromDate(getYear(timestamp), quarterMonth, 1)
+  );
+};
+
+export const getBiannualLastFriday = (timestamp: number) => {
+  const biannualMonth = getMonth(timestamp) <= 6 ? 6 : 12;
+  return getMonthLastFriday(
+    timestampFromDate(getYear(timestamp), biannualMonth, 1)
+  );
+};
+
+/**
+ * Friday 8am UTC expiry after the timestamp, VaultLifecycle.getNextFriday
+ * and VaultLifecycleWithSwap.getNextFriday. From Friday 8am on, it is the
+ * following week's.
+ */
+export const getNextFridayExpiry = (timestamp: number) => {
+  // 0 = Sunday, 6 = Saturday
+  const dayOfWeek = (div(timestamp, SECONDS_PER_DAY) + 4) % 7;
+  const nextFriday = timestamp + ((7 + 5 - dayOfWeek) % 7) * SECONDS_PER_DAY;
+  const friday8am =
+    nextFriday - (nextFriday % SECONDS_PER_DAY) + EXPIRY_HOUR * 3600;
+  return timestamp >= friday8am ? friday8am + WEEK : friday8am;
+};
+
+/**
+ * Expiry of the option a vault commits to next, VaultLifecycle.getNextExpiry
+ * @param currentExpiry is the expiry timestamp of the current option,
+ * null before the first round
+ * @param now is the block timestamp of the commit
+ */
+export const getNextVaultExpiry = (currentExpiry: number | null, now: number) =>
+  // Vaults which wrote no options for over a week start from now
+  currentExpiry === null || now > currentExpiry + WEEK
+    ? getNextFridayExpiry(now)
+    : getNextFridayExpiry(currentExpiry);
+
+/**
+ * Next expiry of a RibbonTreasuryVault, VaultLifecycleTreasury.getNextExpiry
+ * @param timestamp is the expiry timestamp of the current option
+ * @param period is no. of days in between option sales: 7, 14, 30, 90 or 180
+ */
+export const getNextExpiry = (timestamp: number, period: number) => {
+  let nextExpiry: number;
+
+  switch (period) {
+    case 7:
+    case 14:
+      nextExpiry = getNextFriday(timestamp);
+      if (nextExpiry <= timestamp) {
+        nextExpiry += (period / 7) * WEEK;
+      }
+      break;
+    case 30:
+      nextExpiry = getMonthLastFriday(timestamp);
+      if (nextExpiry <= timestamp) {
+        nextExpiry = getMonthLastFriday(nextExpiry + WEEK);
+      }
+      break;
+    case 90:
+      nextExpiry = getQuarterLastFriday(timestamp);
+      if (nextExpiry <= timestamp) {
+        nextExpiry = getQuarterLastFriday(nextExpiry + WEEK);
+      }
+      break;
+    case 180:
+      nextExpiry = getBiannualLastFriday(timestamp);
+      if (nextExpiry <= timestamp) {
+        nextExpiry = getBiannualLastFriday(nextExpiry + WEEK);
+      }
+      break;
+    default:
+      throw new Error(`Invalid treasury vault period ${period}`);
+  }
+
+  return nextExpiry - (nextExpiry % SECONDS_PER_DAY) + EXPIRY_HOUR * 3600;
+};
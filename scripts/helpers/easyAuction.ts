@@ -0,0 +1,202 @@
+import { BigNumber, Contract, ethers } from "ethers";
+import { Provider } from "@ethersproject/providers";
+
+// Orders are sorted by price, the head of the list is a valid hint for any
+// new order at the cost of walking the list on-chain
+export const QUEUE_START =
+  "0x0000000000000000000000000000000000000000000000000000000000000001";
+
+// oTokens have 8 decimals, prices are quoted per whole option
+const OTOKEN_UNIT = BigNumber.from(10).pow(8);
+
+// Blocks per eth_getLogs call, within the limits of the public RPCs
+const LOG_RANGE = 2000;
+
+export const easyAuctionInterface = new ethers.utils.Interface([
+  "function auctionData(uint256 auctionId) view returns (address auctioningToken, address biddingToken, uint256 orderCancellationEndDate, uint256 auctionEndDate, bytes32 initialAuctionOrder, uint256 minimumBiddingAmountPerOrder, uint256 interimSumBidAmount, bytes32 interimOrder, bytes32 clearingPriceOrder, uint96 volumeClearingPriceOrder, bool minFundingThresholdNotReached, bool isAtomicClosureAllowed, uint256 feeNumerator, uint256 minFundingThreshold)",
+  "function FEE_DENOMINATOR() view returns (uint256)",
+  "function getUserId(address user) returns (uint64 userId)",
+  "function placeSellOrders(uint256 auctionId, uint96[] _minBuyAmounts, uint96[] _sellAmounts, bytes32[] _prevSellOrders, bytes allowListCallData) returns (uint64)",
+  "function cancelSellOrders(uint256 auctionId, bytes32[] _sellOrders)",
+  "event NewSellOrder(uint256 indexed auctionId, uint64 indexed userId, uint96 buyAmount, uint96 sellAmount)",
+  "event CancellationSellOrder(uint256 indexed auctionId, uint64 indexed userId, uint96 buyAmount, uint96 sellAmount)",
+]);
+
+export interface Order {
+  sellAmount: BigNumber;
+  buyAmount: BigNumber;
+  userId: BigNumber;
+}
+
+export function decodeOrder(bytes: string): Order {
+  return {
+    userId: BigNumber.from("0x" + bytes.substring(2, 18)),
+    sellAmount: BigNumber.from("0x" + bytes.substring(42, 66)),
+    buyAmount: BigNumber.from("0x" + bytes.substring(18, 42)),
+  };
+}
+
+export function encodeOrder(order: Order): string {
+  return (
+    "0x" +
+    order.userId.toHexString().slice(2).padStart(16, "0") +
+    order.buyAmount.toHexString().slice(2).padStart(24, "0") +
+    order.sellAmount.toHexString().slice(2).padStart(24, "0")
+  );
+}
+
+export interface BidSize {
+  // Bidding token per option, or for all the options bid for
+  price?: BigNumber;
+  premium?: BigNumber;
+  // Options bid for, the whole auction by default
+  options?: BigNumber;
+}
+
+export interface Bid {
+  // oTokens bought, the order's minBuyAmount
+  options: BigNumber;
+  // Bidding token paid, the order's sellAmount
+  premium: BigNumber;
+}
+
+/**
+ * oTokens EasyAuction pulls from the vault on top of the auctioned ones, for
+ * the fee receiver at settlement. Bidders share the initial order's
+ * sellAmount only, whatever the auction holds.
+ */
+export const getAuctionFee = (
+  auctionedOptions: BigNumber,
+  feeNumerator: BigNumber,
+  feeDenominator: BigNumber
+) => auctionedOptions.mul(feeNumerator).div(feeDenominator);
+
+/**
+ * Sizes a bid from a price per option or a total premium
+ */
+export const getBid = (auctionedOptions: BigNumber, size: BidSize): Bid => {
+  const options = size.options || auctionedOptions;
+  if (options.isZero() || options.gt(auctionedOptions)) {
+    throw new Error(
+      `Bid for ${options} oTokens, the auction sells ${auctionedOptions}`
+    );
+  }
+  if (size.premium) {
+    return { options, premium: size.premium };
+  }
+  if (size.price) {
+    return { options, premium: size.price.mul(options).div(OTOKEN_UNIT) };
+  }
+  throw new Error("Bid needs a price per option or a total premium");
+};
+
+/**
+ * Reasons EasyAuction would reject the order, checked before sending it
+ * @return null when the bid is placeable
+ */
+export const getBidError = (
+  bid: Bid,
+  initialAuctionOrder: Order,
+  minimumBiddingAmountPerOrder: BigNumber
+): string | null => {
+  if (bid.premium.lte(minimumBiddingAmountPerOrder)) {
+    return `premium ${bid.premium} is not above the minimum order of ${minimumBiddingAmountPerOrder}`;
+  }
+  // The initial order sells the oTokens for at least its buyAmount
+  if (
+    bid.options
+      .mul(initialAuctionOrder.buyAmount)
+      .gte(initialAuctionOrder.sellAmount.mul(bid.premium))
+  ) {
+    return "price is not above the auction's minimum price";
+  }
+  return null;
+};
+
+/**
+ * Price per option of an order, in bidding token units
+ */
+export const getOrderPrice = (order: Order) =>
+  order.sellAmount.mul(OTOKEN_UNIT).div(order.buyAmount);
+
+/**
+ * First block at or after the timestamp
+ */
+export async function findBlockAt(provider: Provider, timestamp: number) {
+  let low = 0;
+  let high = await provider.getBlockNumber();
+
+  while (low < high) {
+    const middle = Math.floor((low + high) / 2);
+    if ((await provider.getBlock(middle)).timestamp < timestamp) {
+      low = middle + 1;
+    } else {
+      high = middle;
+    }
+  }
+  return low;
+}
+
+const queryOrders = async (
+  gnosisAuction: Contract,
+  eventName: string,
+  auctionID: BigNumber,
+  userId: BigNumber | null,
+  fromBlock: number,
+  toBlock: number
+) => {
+  const filter = gnosisAuction.filters[eventName](auctionID, userId);
+  const orders: string[] = [];
+
+  for (let start = fromBlock; start <= toBlock; start += LOG_RANGE) {
+    const events = await gnosisAuction.queryFilter(
+      filter,
+      start,
+      Math.min(start + LOG_RANGE - 1, toBlock)
+    );
+    events.forEach(({ args }) =>
+      orders.push(
+        encodeOrder({
+          userId: args.userId,
+          buyAmount: args.buyAmount,
+          sellAmount: args.sellAmount,
+        })
+      )
+    );
+  }
+  return orders;
+};
+
+/**
+ * Orders placed in the auction since `fromBlock` and not cancelled, as
+ * encoded order IDs
+ * @param userId restricts the orders to one user, all users by default
+ */
+export async function getOpenOrders(
+  gnosisAuction: Contract,
+  auctionID: BigNumber,
+  fromBlock: number,
+  userId: BigNumber | null = null
+) {
+  const toBlock = await gnosisAuction.provider.getBlockNumber();
+  const placed = await queryOrders(
+    gnosisAuction,
+    "NewSellOrder",
+    auctionID,
+    userId,
+    fromBlock,
+    toBlock
+  );
+  const cancelled = new Set(
+    await queryOrders(
+      gnosisAuction,
+      "CancellationSellOrder",
+      auctionID,
+      userId,
+      fromBlock,
+      toBlock
+    )
+  );
+
+  return placed.filter((order) => !cancelled.has(order));
+}
@@ -11,28 +11,27 @@ export const TEST_URI = {
   [CHAINID.AVAX_FUJI]: process.env.FUJI_URI,
 };
 
-export type Networks = "polygon" | "mumbai";
+export type Networks =
+  | "mainnet"
+  | "kovan"
+  | "polygon"
+  | "mumbai"
+  | "avax"
+  | "fuji";
+
+const NETWORK_URI: Record<Networks, string> = {
+  mainnet: process.env.MAINNET_URI,
+  kovan: process.env.KOVAN_URI,
+  polygon: process.env.POLYGON_URI,
+  mumbai: process.env.MUMBAI_URI,
+  avax: process.env.AVAX_URI,
+  fuji: process.env.FUJI_URI,
+};
 
 export const getDefaultProvider = (network: Networks = "polygon") => {
-  const url =
-    network === "polygon"
-      ? process.env.POLYGON_URI
-      : process.env.MUMBAI_URI;
+  const url = NETWORK_URI[network];
 
   const provider = new ethers.providers.JsonRpcProvider(url);
 
   return provider;
 };
-
-export const getDefaultSigner = (path: string, network: Networks = "polygon") => {
-  const mnemonic =
-    network === "polygon"
-      ? process.env.POLYGON_MNEMONIC
-      : process.env.MUMBAI_MNEMONIC;
-
-  if (!mnemonic) {
-    throw new Error("No mnemonic set");
-  }
-  const signer = ethers.Wallet.fromMnemonic(mnemonic, path);
-  return signer;
-};
@@ -1,10 +1,12 @@
-import { BigNumber, ethers } from "ethers";
+import { BigNumber, PopulatedTransaction, ethers } from "ethers";
+import { Provider } from "@ethersproject/providers";
 const { parseUnits } = ethers.utils;
 import axios from "axios";
 
 require("dotenv").config();
 
 const API_URL = `https://api.etherscan.io/api?module=gastracker&action=gasoracle&apikey=${process.env.ETHERSCAN_API_KEY}`;
+const POLYGON_GAS_STATION_URL = "https://gasstation-mainnet.matic.network/v2";
 
 export async function getGasPrice(isFast = true) {
   const response = await axios.get(API_URL);
@@ -19,9 +21,54 @@ export async function getGasPrice(isFast = true) {
   return parseUnits(price.toString(), "gwei");
 }
 
-export async function gas(network: string) {
+export async function getPolygonGasPrice(isFast = true) {
+  const response = await axios.get(POLYGON_GAS_STATION_URL);
+  const estimate = isFast ? response.data.fast : response.data.standard;
+
+  // Gas station quotes gwei with up to 9 decimals
+  return parseUnits(estimate.maxFee.toFixed(9), "gwei");
+}
+
+export async function gas(network: string, provider?: Provider) {
   if (network === "mainnet") {
     return (await getGasPrice()).add(parseUnits("20", "gwei"));
   }
+  if (network === "polygon") {
+    return await getPolygonGasPrice();
+  }
+  if (provider) {
+    // 20% above the node's estimate so keeper txs are not left pending
+    return (await provider.getGasPrice()).mul(12).div(10);
+  }
   return parseUnits("40", "gwei");
 }
+
+export type Fees = Pick<
+  PopulatedTransaction,
+  "gasPrice" | "maxFeePerGas" | "maxPriorityFeePerGas"
+>;
+
+/**
+ * EIP-1559 fees on networks with a base fee, a legacy gas price otherwise
+ */
+export async function getFeeData(
+  network: string,
+  provider: Provider
+): Promise<Fees> {
+  if (network === "polygon") {
+    // Polygon enforces a priority fee well above the ethers default
+    const { fast } = (await axios.get(POLYGON_GAS_STATION_URL)).data;
+    return {
+      maxFeePerGas: parseUnits(fast.maxFee.toFixed(9), "gwei"),
+      maxPriorityFeePerGas: parseUnits(fast.maxPriorityFee.toFixed(9), "gwei"),
+    };
+  }
+
+  const { baseFeePerGas } = await provider.getBlock("latest");
+  if (!baseFeePerGas) {
+    return { gasPrice: await gas(network, provider) };
+  }
+
+  const { maxFeePerGas, maxPriorityFeePerGas } = await provider.getFeeData();
+  return { maxFeePerGas, maxPriorityFeePerGas };
+}
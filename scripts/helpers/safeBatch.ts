@@ -0,0 +1,82 @@
+import { ethers } from "ethers";
+
+export interface SafeBatchTransaction {
+  to: string;
+  value: string;
+  data: string;
+  contractMethod: {
+    inputs: { internalType: string; name: string; type: string }[];
+    name: string;
+    payable: boolean;
+  };
+  contractInputsValues: { [input: string]: string };
+}
+
+// File format of the Safe Transaction Builder app
+export interface SafeBatch {
+  version: "1.0";
+  chainId: string;
+  createdAt: number;
+  meta: {
+    name: string;
+    description: string;
+    txBuilderVersion: string;
+    createdFromSafeAddress: string;
+    createdFromOwnerAddress: string;
+  };
+  transactions: SafeBatchTransaction[];
+}
+
+/**
+ * Transaction Builder entry calling `fragment` on `to`, keeping the decoded
+ * arguments so signers can review them in the app
+ */
+export const toSafeTransaction = (
+  to: string,
+  fragment: ethers.utils.FunctionFragment,
+  args: string[]
+): SafeBatchTransaction => {
+  const contractInputsValues: { [input: string]: string } = {};
+  fragment.inputs.forEach((input, index) => {
+    contractInputsValues[input.name] = args[index];
+  });
+
+  return {
+    to,
+    value: "0",
+    data: new ethers.utils.Interface([fragment]).encodeFunctionData(
+      fragment,
+      args
+    ),
+    contractMethod: {
+      inputs: fragment.inputs.map(({ name, type }) => ({
+        internalType: type,
+        name,
+        type,
+      })),
+      name: fragment.name,
+      payable: fragment.payable,
+    },
+    contractInputsValues,
+  };
+};
+
+export const toSafeBatch = (
+  chainId: number,
+  safe: string,
+  name: string,
+  description: string,
+  transactions: SafeBatchTransaction[]
+): SafeBatch => ({
+  version: "1.0",
+  chainId: chainId.toString(),
+  createdAt: Date.now(),
+  meta: {
+    name,
+    description,
+    txBuilderVersion: "1.10.0",
+    createdFromSafeAddress: safe,
+    createdFromOwnerAddress: "",
+  },
+  transactions,
+});
@@ -1,14 +1,28 @@
 import ManualVolOracle_ABI from "../../constants/abis/ManualVolOracle.json";
-import { ethers } from "hardhat";
+import { ethers, network } from "hardhat";
+import { getRoleSigner } from "./signers";
 const { getContractAt } = ethers;
 
-const setAnnualizedVol = async (oracle: string, pool: string, vol: number) => {
-  let keeperSigner = (await ethers.getSigners())[2];
+const setAnnualizedVol = async (
+  oracle: string,
+  optionId: string,
+  vol: number
+) => {
+  const keeperSigner = await getRoleSigner(
+    "keeper",
+    network.name,
+    ethers.provider
+  );
 
   const oracleContract = await getContractAt(ManualVolOracle_ABI, oracle);
 
-  await oracleContract.connect(keeperSigner).setAnnualizedVol(pool, vol);
-  console.log((await oracleContract.annualizedVol(pool)).toString());
+  await oracleContract
+    .connect(keeperSigner)
+    .setAnnualizedVol([optionId], [vol]);
+  // annualizedVol is overloaded, the option ID one holds the vol just set
+  console.log(
+    (await oracleContract["annualizedVol(bytes32)"](optionId)).toString()
+  );
 };
 
 export default setAnnualizedVol;
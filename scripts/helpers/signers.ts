@@ -0,0 +1,209 @@
+import * as fs from "fs";
+import { Signer, ethers } from "ethers";
+import { JsonRpcProvider, Provider } from "@ethersproject/providers";
+import { Networks, getDefaultProvider } from "./getDefaultEthersProvider";
+import defaultConfig from "../../constants/signers.json";
+
+require("dotenv").config();
+
+const DEFAULT_PATH = "m/44'/60'/0'/0/0";
+
+export type SignerRole = "deployer" | "keeper" | "owner";
+
+// Derives from the mnemonic in `mnemonicEnv`, <NETWORK>_MNEMONIC by default
+interface MnemonicSpec {
+  type: "mnemonic";
+  mnemonicEnv?: string;
+  path?: string;
+}
+
+// Key `index` of the comma separated keys in `keyEnv`
+interface PrivateKeySpec {
+  type: "privateKey";
+  keyEnv: string;
+  index?: number;
+}
+
+// Encrypted JSON keystore, unlocked with the password in `passwordEnv`
+interface KeystoreSpec {
+  type: "keystore";
+  file: string;
+  passwordEnv: string;
+}
+
+// OpenZeppelin Defender relayer, which sets nonces and fees itself
+interface DefenderSpec {
+  type: "defender";
+  apiKeyEnv: string;
+  apiSecretEnv: string;
+  speed?: "safeLow" | "average" | "fast" | "fastest";
+}
+
+// Any account, unlocked on a Hardhat fork
+interface ImpersonateSpec {
+  type: "impersonate";
+  address: string;
+}
+
+export type SignerSpec =
+  | MnemonicSpec
+  | PrivateKeySpec
+  | KeystoreSpec
+  | DefenderSpec
+  | ImpersonateSpec;
+
+type RoleSpecs = Partial<Record<SignerRole, SignerSpec>>;
+
+export interface SignerConfig {
+  default: RoleSpecs;
+  networks: { [network: string]: RoleSpecs };
+}
+
+// Relayed signers are left to price and replace their own transactions
+const relaySigners = new WeakSet<Signer>();
+
+export const isRelaySigner = (signer: Signer) => relaySigners.has(signer);
+
+/**
+ * Reads the signer config from SIGNER_CONFIG when set,
+ * constants/signers.json otherwise
+ */
+export const loadSignerConfig = (): SignerConfig =>
+  process.env.SIGNER_CONFIG
+    ? JSON.parse(fs.readFileSync(process.env.SIGNER_CONFIG, "utf8"))
+    : (defaultConfig as SignerConfig);
+
+export const getSignerSpec = (
+  config: SignerConfig,
+  network: string,
+  role: SignerRole
+): SignerSpec => {
+  const spec = (config.networks[network] || {})[role] || config.default[role];
+  if (!spec) {
+    throw new Error(`No ${role} signer configured for ${network}`);
+  }
+  return spec;
+};
+
+const readEnv = (name: string) => {
+  const value = process.env[name];
+  if (!value) {
+    throw new Error(`${name} is not set`);
+  }
+  return value;
+};
+
+const getMnemonicEnv = (spec: MnemonicSpec, network: string) =>
+  spec.mnemonicEnv || `${network.toUpperCase()}_MNEMONIC`;
+
+const getPrivateKeys = (spec: PrivateKeySpec) =>
+  readEnv(spec.keyEnv)
+    .split(",")
+    .map((key) => key.trim());
+
+/**
+ * Impersonates the account on a Hardhat fork
+ */
+export async function getImpersonatedSigner(
+  provider: JsonRpcProvider,
+  address: string
+) {
+  await provider.send("hardhat_impersonateAccount", [address]);
+  return provider.getSigner(address);
+}
+
+/**
+ * Builds the signer a spec describes, connected to the provider
+ */
+export async function createSigner(
+  spec: SignerSpec,
+  network: string,
+  provider: Provider
+): Promise<Signer> {
+  switch (spec.type) {
+    case "mnemonic":
+      return ethers.Wallet.fromMnemonic(
+        readEnv(getMnemonicEnv(spec, network)),
+        spec.path || DEFAULT_PATH
+      ).connect(provider);
+    case "privateKey":
+      return new ethers.Wallet(getPrivateKeys(spec)[spec.index || 0], provider);
+    case "keystore":
+      return (
+        await ethers.Wallet.fromEncryptedJson(
+          fs.readFileSync(spec.file, "utf8"),
+          readEnv(spec.passwordEnv)
+        )
+      ).connect(provider);
+    case "defender": {
+      // Only loaded when a relayer is configured
+      const {
+        DefenderRelaySigner,
+      } = require("defender-relay-client/lib/ethers"); // eslint-disable-line global-require
+      const signer: Signer = new DefenderRelaySigner(
+        {
+          apiKey: readEnv(spec.apiKeyEnv),
+          apiSecret: readEnv(spec.apiSecretEnv),
+        },
+        provider,
+        { speed: spec.speed || "fast" }
+      );
+      relaySigners.add(signer);
+      return signer;
+    }
+    case "impersonate":
+      return getImpersonatedSigner(provider as JsonRpcProvider, spec.address);
+    default:
+      throw new Error(`Unknown signer type ${(spec as SignerSpec).type}`);
+  }
+}
+
+/**
+ * Signer of the role on the network, as set in the signer config
+ */
+export const getRoleSigner = async (
+  role: SignerRole,
+  network: string,
+  provider: Provider = getDefaultProvider(network as Networks),
+  config = loadSignerConfig()
+) => createSigner(getSignerSpec(config, network, role), network, provider);
+
+/**
+ * Accounts of a network in hardhat.config.ts, the mnemonic of the deployer
+ * or the keys of every role signing with one. Relayed and impersonated
+ * roles are left out, and so are roles whose secret is not set.
+ */
+export const getHardhatAccounts = (
+  network: string,
+  config = loadSignerConfig()
+) => {
+  const deployer = getSignerSpec(config, network, "deployer");
+  if (deployer.type === "mnemonic") {
+    const mnemonic = process.env[getMnemonicEnv(deployer, network)];
+    const path = (deployer.path || DEFAULT_PATH).split("/");
+    return mnemonic
+      ? {
+          mnemonic,
+          path: path.slice(0, -1).join("/"),
+          initialIndex: Number(path[path.length - 1]),
+        }
+      : [];
+  }
+
+  const keys = new Set<string>();
+  for (const role of ["deployer", "owner", "keeper"] as SignerRole[]) {
+    const spec = getSignerSpec(config, network, role);
+    if (spec.type === "privateKey" && process.env[spec.keyEnv]) {
+      getPrivateKeys(spec).forEach((key) => keys.add(key));
+    }
+    if (spec.type === "keystore" && process.env[spec.passwordEnv]) {
+      keys.add(
+        ethers.Wallet.fromEncryptedJsonSync(
+          fs.readFileSync(spec.file, "utf8"),
+          process.env[spec.passwordEnv]
+        ).privateKey
+      );
+    }
+  }
+  return [...keys];
+};
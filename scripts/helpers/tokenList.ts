@@ -0,0 +1,320 @@
+import * as fs from "fs";
+import * as path from "path";
+import { Contract, ethers } from "ethers";
+import { Provider } from "@ethersproject/providers";
+
+require("dotenv").config();
+
+export const DEFAULT_TOKEN_LIST_DIR =
+  process.env.TOKEN_LIST_DIR || path.join(__dirname, "..", "..", "token-lists");
+
+export const DEFAULT_TOKEN_LOGO = "https://i.imgur.com/u5z1Ev2.png";
+
+export interface Version {
+  major: number;
+  minor: number;
+  patch: number;
+}
+
+export interface TokenInfo {
+  chainId: number;
+  address: string;
+  name: string;
+  symbol: string;
+  decimals: number;
+  logoURI?: string;
+  extensions?: { [key: string]: string | number | boolean | null };
+}
+
+export interface TokenList {
+  name: string;
+  timestamp: string;
+  version: Version;
+  keywords: string[];
+  logoURI?: string;
+  tokens: TokenInfo[];
+}
+
+const otokenInterface = new ethers.utils.Interface([
+  "function name() view returns (string)",
+  "function symbol() view returns (string)",
+  "function decimals() view returns (uint8)",
+  "function expiryTimestamp() view returns (uint256)",
+]);
+
+const vaultInterface = new ethers.utils.Interface([
+  "function optionState() view returns (address nextOption, address currentOption, uint32 nextOptionReadyAt)",
+]);
+
+// Constraints of https://uniswap.org/tokenlist.schema.json
+const LIST_NAME = /^[\w ]+$/u;
+const KEYWORD = /^[\w ]+$/u;
+const TOKEN_NAME = /^[ \w.'+\-%/À-ÖØ-öø-ÿ:&[\]()]+$/u;
+const TOKEN_SYMBOL = /^[a-zA-Z0-9+\-%/$.]+$/u;
+const ADDRESS = /^0x[a-fA-F0-9]{40}$/u;
+const LIST_KEYS = [
+  "name",
+  "timestamp",
+  "version",
+  "keywords",
+  "logoURI",
+  "tokens",
+  "tags",
+];
+const TOKEN_KEYS = [
+  "chainId",
+  "address",
+  "name",
+  "symbol",
+  "decimals",
+  "logoURI",
+  "tags",
+  "extensions",
+];
+
+const isInteger = (value: number, min: number, max = Infinity) =>
+  Number.isInteger(value) && value >= min && value <= max;
+
+const isUri = (value: unknown) => {
+  try {
+    return typeof value === "string" && Boolean(new URL(value));
+  } catch (error) {
+    return false;
+  }
+};
+
+const validateToken = (token: TokenInfo, index: number) => {
+  const errors = [];
+  const at = `tokens[${index}]`;
+
+  for (const key of Object.keys(token)) {
+    if (!TOKEN_KEYS.includes(key)) {
+      errors.push(`${at} has unknown property ${key}`);
+    }
+  }
+  if (!isInteger(token.chainId, 1)) {
+    errors.push(`${at}.chainId must be a positive integer`);
+  }
+  if (!ADDRESS.test(token.address)) {
+    errors.push(`${at}.address must be a 0x address`);
+  }
+  if (!isInteger(token.decimals, 0, 255)) {
+    errors.push(`${at}.decimals must be between 0 and 255`);
+  }
+  if (token.name.length > 40 || !TOKEN_NAME.test(token.name)) {
+    errors.push(`${at}.name "${token.name}" is not a valid token name`);
+  }
+  if (token.symbol.length > 20 || !TOKEN_SYMBOL.test(token.symbol)) {
+    errors.push(`${at}.symbol "${token.symbol}" is not a valid symbol`);
+  }
+  if ("logoURI" in token && !isUri(token.logoURI)) {
+    errors.push(`${at}.logoURI must be a uri`);
+  }
+  if (token.extensions && Object.keys(token.extensions).length > 10) {
+    errors.push(`${at}.extensions has more than 10 properties`);
+  }
+  return errors;
+};
+
+/**
+ * Checks a list against the Uniswap token list schema
+ * @return the violations found, empty for a valid list
+ */
+export const validateTokenList = (list: TokenList) => {
+  const errors = [];
+
+  for (const key of Object.keys(list)) {
+    if (!LIST_KEYS.includes(key)) {
+      errors.push(`list has unknown property ${key}`);
+    }
+  }
+  if (list.name.length > 30 || !LIST_NAME.test(list.name)) {
+    errors.push(`list name "${list.name}" is not valid`);
+  }
+  if (Number.isNaN(Date.parse(list.timestamp))) {
+    errors.push("timestamp must be a date-time");
+  }
+  for (const part of ["major", "minor", "patch"]) {
+    if (!isInteger(list.version[part], 0)) {
+      errors.push(`version.${part} must be a non-negative integer`);
+    }
+  }
+  if (
+    list.keywords.length > 20 ||
+    new Set(list.keywords).size < list.keywords.length
+  ) {
+    errors.push("keywords must be at most 20 unique entries");
+  }
+  for (const keyword of list.keywords) {
+    if (keyword.length > 20 || !KEYWORD.test(keyword)) {
+      errors.push(`keyword "${keyword}" is not valid`);
+    }
+  }
+  if ("logoURI" in list && !isUri(list.logoURI)) {
+    errors.push("logoURI must be a uri");
+  }
+  if (list.tokens.length > 10000) {
+    errors.push("list has more than 10000 tokens");
+  }
+
+  const seen = new Set();
+  list.tokens.forEach((token, index) => {
+    errors.push(...validateToken(token, index));
+
+    const key = `${token.chainId}-${token.address.toLowerCase()}`;
+    if (seen.has(key)) {
+      errors.push(`tokens[${index}] is listed twice`);
+    }
+    seen.add(key);
+  });
+
+  return errors;
+};
+
+const tokenKey = (token: TokenInfo) =>
+  `${token.chainId}-${token.address.toLowerCase()}`;
+
+/**
+ * Semantic version of a list going from `previous` to `tokens`, following
+ * the token list rules: removing tokens is a major change, adding tokens a
+ * minor one and changing token details a patch
+ */
+export const nextVersion = (
+  previous: TokenList | null,
+  tokens: TokenInfo[]
+): Version => {
+  if (!previous) {
+    return { major: 1, minor: 0, patch: 0 };
+  }
+
+  const { major, minor, patch } = previous.version;
+  const before = new Map(
+    previous.tokens.map((token) => [tokenKey(token), token])
+  );
+  const after = new Map(tokens.map((token) => [tokenKey(token), token]));
+
+  if ([...before.keys()].some((key) => !after.has(key))) {
+    return { major: major + 1, minor: 0, patch: 0 };
+  }
+  if ([...after.keys()].some((key) => !before.has(key))) {
+    return { major, minor: minor + 1, patch: 0 };
+  }
+  if (
+    tokens.some(
+      (token) =>
+        JSON.stringify(token) !== JSON.stringify(before.get(tokenKey(token)))
+    )
+  ) {
+    return { major, minor, patch: patch + 1 };
+  }
+  return previous.version;
+};
+
+/**
+ * Options the vaults are selling or about to sell, as token list entries.
+ * Each entry keeps the oToken expiry so it can be pruned once expired.
+ */
+export async function getVaultOTokens(
+  provider: Provider,
+  chainId: number,
+  vaultAddresses: string[],
+  logoURI: string
+) {
+  const otokens = new Set<string>();
+
+  for (const vaultAddress of vaultAddresses) {
+    const vault = new Contract(vaultAddress, vaultInterface, provider);
+    const { nextOption, currentOption } = await vault.optionState();
+    for (const option of [nextOption, currentOption]) {
+      if (option !== ethers.constants.AddressZero) {
+        otokens.add(option);
+      }
+    }
+  }
+
+  const tokens: TokenInfo[] = [];
+
+  for (const address of otokens) {
+    const otoken = new Contract(address, otokenInterface, provider);
+
+    // Drop the trailing "<asset> Collateral" from the oToken name
+    const name = (await otoken.name()).split(" ").slice(0, -2).join(" ");
+
+    tokens.push({
+      chainId,
+      address,
+      name,
+      symbol: (await otoken.symbol()).split("/").pop(),
+      decimals: await otoken.decimals(),
+      logoURI,
+      extensions: {
+        expiryTimestamp: (await otoken.expiryTimestamp()).toNumber(),
+      },
+    });
+  }
+
+  return tokens;
+}
+
+export const tokenListFile = (dir: string, network: string) =>
+  path.join(dir, `ribbon.${network}.tokenlist.json`);
+
+export const readTokenList = (file: string): TokenList | null =>
+  fs.existsSync(file) ? JSON.parse(fs.readFileSync(file, "utf8")) : null;
+
+/**
+ * Merges the vaults' oTokens into the network's list in `dir`, dropping
+ * expired ones, and writes it back when anything changed
+ * @return the list, and whether it was written
+ */
+export async function updateTokenList(
+  provider: Provider,
+  chainId: number,
+  network: string,
+  vaultAddresses: string[],
+  dir: string,
+  logoURI = DEFAULT_TOKEN_LOGO
+) {
+  const file = tokenListFile(dir, network);
+  const previous = readTokenList(file);
+  const now = Math.floor(Date.now() / 1000);
+
+  const merged = new Map(
+    (previous ? previous.tokens : []).map((token) => [tokenKey(token), token])
+  );
+  for (const token of await getVaultOTokens(
+    provider,
+    chainId,
+    vaultAddresses,
+    logoURI
+  )) {
+    merged.set(tokenKey(token), token);
+  }
+
+  const tokens = [...merged.values()].filter(
+    ({ extensions }) => !extensions || Number(extensions.expiryTimestamp) > now
+  );
+
+  const version = nextVersion(previous, tokens);
+  if (previous && version === previous.version) {
+    return { file, list: previous, changed: false };
+  }
+
+  const list: TokenList = {
+    name: "Ribbon oTokens",
+    timestamp: new Date(now * 1000).toISOString(),
+    version,
+    keywords: ["defi", "option", "opyn", "ribbon"],
+    logoURI,
+    tokens,
+  };
+
+  const errors = validateTokenList(list);
+  if (errors.length > 0) {
+    throw new Error(`Invalid token list ${file}:\n${errors.join("\n")}`);
+  }
+
+  fs.mkdirSync(dir, { recursive: true });
+  fs.writeFileSync(file, `${JSON.stringify(list, null, 2)}\n`);
+  return { file, list, changed: true };
+}
@@ -0,0 +1,162 @@
+import { BigNumber, Contract } from "ethers";
+import { Provider } from "@ethersproject/providers";
+import { BYTES_ZERO } from "../../constants/constants";
+import {
+  Order,
+  decodeOrder,
+  easyAuctionInterface,
+  findBlockAt,
+  getOpenOrders,
+} from "../helpers/easyAuction";
+
+export interface ProjectedClearing {
+  // Asset per oToken the auction would clear at, 18 decimals
+  price: BigNumber;
+  // oTokens sold at that price
+  sold: BigNumber;
+  // Share of the auctioned oTokens sold, in percent
+  fill: number;
+}
+
+export interface AuctionStatus extends ProjectedClearing {
+  auctionID: BigNumber;
+  endsAt: number;
+  auctioned: BigNumber;
+  // Lowest price the initial order accepts, 18 decimals
+  minPrice: BigNumber;
+  bids: number;
+  bidders: number;
+  // Asset bid by all orders
+  totalBids: BigNumber;
+}
+
+// Asset amount paid for oTokens as a price per oToken with 18 decimals,
+// the same scaling as getAuctionMinPrice
+const toPrice = (
+  assetAmount: BigNumber,
+  oTokens: BigNumber,
+  decimals: number
+) =>
+  assetAmount
+    .mul(BigNumber.from(10).pow(36 - decimals))
+    .div(oTokens.mul(BigNumber.from(10).pow(10)));
+
+// Highest price first, as settleAuction walks the orders
+const byPriceDescending = (a: Order, b: Order) => {
+  const left = a.sellAmount.mul(b.buyAmount);
+  const right = b.sellAmount.mul(a.buyAmount);
+  if (left.eq(right)) {
+    return 0;
+  }
+  return left.gt(right) ? -1 : 1;
+};
+
+const getFill = (sold: BigNumber, auctioned: BigNumber) =>
+  sold.mul(10000).div(auctioned).toNumber() / 100;
+
+/**
+ * Clearing price EasyAuction's settleAuction would find for the orders,
+ * summing bids from the highest price down until they buy every
+ * auctioned oToken
+ * @param initialAuctionOrder is the auctioneer's order, selling the
+ * oTokens for at least its buyAmount
+ * @param decimals is the decimals of the bidding token
+ */
+export const getProjectedClearing = (
+  initialAuctionOrder: Order,
+  orders: Order[],
+  decimals: number
+): ProjectedClearing => {
+  const auctioned = initialAuctionOrder.sellAmount;
+  let bidSum = BigNumber.from(0);
+
+  for (const order of [...orders].sort(byPriceDescending)) {
+    bidSum = bidSum.add(order.sellAmount);
+    if (bidSum.mul(order.buyAmount).gte(auctioned.mul(order.sellAmount))) {
+      const uncovered = bidSum.sub(
+        auctioned.mul(order.sellAmount).div(order.buyAmount)
+      );
+      // The order clears the auction when partly filled, otherwise the
+      // higher bids alone buy every oToken at a price above it
+      return {
+        price: order.sellAmount.gte(uncovered)
+          ? toPrice(order.sellAmount, order.buyAmount, decimals)
+          : toPrice(bidSum.sub(order.sellAmount), auctioned, decimals),
+        sold: auctioned,
+        fill: 100,
+      };
+    }
+  }
+
+  // Bids too thin at their own prices still sell out above the min price
+  if (bidSum.gt(initialAuctionOrder.buyAmount)) {
+    return {
+      price: toPrice(bidSum, auctioned, decimals),
+      sold: auctioned,
+      fill: 100,
+    };
+  }
+
+  const sold = initialAuctionOrder.buyAmount.isZero()
+    ? BigNumber.from(0)
+    : bidSum.mul(auctioned).div(initialAuctionOrder.buyAmount);
+  return {
+    price: toPrice(initialAuctionOrder.buyAmount, auctioned, decimals),
+    sold,
+    fill: getFill(sold, auctioned),
+  };
+};
+
+/**
+ * Reads the running auction of a vault with the orders placed in it so far
+ * @param vault is the vault contract, with an auction started by the vault
+ * @return null when the vault's auction is settled or was never started
+ */
+export async function getAuctionStatus(
+  provider: Provider,
+  gnosisAuctionAddress: string,
+  vault: Contract
+): Promise<AuctionStatus | null> {
+  const gnosisAuction = new Contract(
+    gnosisAuctionAddress,
+    easyAuctionInterface,
+    provider
+  );
+  const auctionID: BigNumber = await vault.optionAuctionID();
+  const { initialAuctionOrder, clearingPriceOrder, auctionEndDate } =
+    await gnosisAuction.auctionData(auctionID);
+  if (initialAuctionOrder === BYTES_ZERO || clearingPriceOrder !== BYTES_ZERO) {
+    return null;
+  }
+
+  // Started by the vault, so auctionDuration before its end
+  const startedAt = auctionEndDate.sub(await vault.auctionDuration());
+  const orders = (
+    await getOpenOrders(
+      gnosisAuction,
+      auctionID,
+      await findBlockAt(provider, startedAt.toNumber())
+    )
+  ).map(decodeOrder);
+
+  const { decimals } = await vault.vaultParams();
+  const initialOrder = decodeOrder(initialAuctionOrder);
+
+  return {
+    ...getProjectedClearing(initialOrder, orders, decimals),
+    auctionID,
+    endsAt: auctionEndDate.toNumber(),
+    auctioned: initialOrder.sellAmount,
+    minPrice: toPrice(
+      initialOrder.buyAmount,
+      initialOrder.sellAmount,
+      decimals
+    ),
+    bids: orders.length,
+    bidders: new Set(orders.map(({ userId }) => userId.toString())).size,
+    totalBids: orders.reduce(
+      (total, { sellAmount }) => total.add(sellAmount),
+      BigNumber.from(0)
+    ),
+  };
+}
@@ -0,0 +1,148 @@
+import * as fs from "fs";
+import { BigNumber, Contract, ethers } from "ethers";
+import { Provider } from "@ethersproject/providers";
+import { Fees } from "../helpers/getGasPrice";
+import { getGasHistory } from "./progress";
+import defaultConfig from "../../constants/keeper-balances.json";
+
+require("dotenv").config();
+
+const { parseUnits } = ethers.utils;
+
+const CYCLE = 7 * 24 * 3600; // the lifecycle runs weekly
+
+export interface TokenBalanceConfig {
+  name: string;
+  token: string;
+  holder: string;
+  // Alert below this amount, in token units
+  min: string;
+}
+
+export interface BalanceConfig {
+  // Alert below this native balance whatever the gas history says
+  minBalance: string;
+  // Alert once the balance covers fewer cycles than this
+  cycles: number;
+  // Top ups bring the balance up to this many cycles
+  topUpCycles: number;
+  // Largest single top up, in the native token
+  maxTopUp: string;
+  // Relayers watched on top of the keeper accounts
+  accounts: string[];
+  tokens: TokenBalanceConfig[];
+}
+
+export interface NativeBalance {
+  account: string;
+  balance: BigNumber;
+  threshold: BigNumber;
+  // Zero unless the balance is below the threshold
+  topUp: BigNumber;
+}
+
+export interface TokenBalance extends TokenBalanceConfig {
+  balance: BigNumber;
+  decimals: number;
+  isLow: boolean;
+}
+
+const erc20 = new ethers.utils.Interface([
+  "function balanceOf(address) view returns (uint256)",
+  "function decimals() view returns (uint8)",
+]);
+
+/**
+ * Reads the config of the network from KEEPER_BALANCES when set,
+ * constants/keeper-balances.json otherwise
+ * @return null when the network has no balances to watch
+ */
+export const loadBalanceConfig = (network: string): BalanceConfig | null => {
+  const config = process.env.KEEPER_BALANCES
+    ? JSON.parse(fs.readFileSync(process.env.KEEPER_BALANCES, "utf8"))
+    : defaultConfig;
+  return config[network] || null;
+};
+
+/**
+ * Gas the keeper needs for a lifecycle cycle, the most it used over any
+ * week of its recent receipts
+ */
+export const getCycleGas = (chainId: number) => {
+  const now = Math.floor(Date.now() / 1000);
+  const weeks: BigNumber[] = [];
+
+  for (const { minedAt, gasUsed } of getGasHistory(chainId)) {
+    const week = Math.floor((now - minedAt) / CYCLE);
+    weeks[week] = (weeks[week] || BigNumber.from(0)).add(gasUsed);
+  }
+
+  return weeks.reduce(
+    (max, gasUsed) => (gasUsed && gasUsed.gt(max) ? gasUsed : max),
+    BigNumber.from(0)
+  );
+};
+
+/**
+ * Cost of the next cycle at the fees the keeper pays right now
+ */
+export const getCycleCost = (chainId: number, fees: Fees) =>
+  getCycleGas(chainId).mul(fees.maxFeePerGas || fees.gasPrice);
+
+/**
+ * Compares the native balance of every account with what the coming
+ * cycles need, and works out the top up bringing a low balance back up
+ * to `topUpCycles` cycles
+ */
+export async function getNativeBalances(
+  provider: Provider,
+  accounts: string[],
+  cycleCost: BigNumber,
+  config: BalanceConfig
+): Promise<NativeBalance[]> {
+  const minBalance = parseUnits(config.minBalance, 18);
+  const cyclesCost = cycleCost.mul(config.cycles);
+  const threshold = cyclesCost.gt(minBalance) ? cyclesCost : minBalance;
+  const topUpTarget = cycleCost.mul(config.topUpCycles);
+  const maxTopUp = parseUnits(config.maxTopUp, 18);
+
+  const balances = [];
+
+  for (const account of accounts) {
+    const balance = await provider.getBalance(account);
+    let topUp = BigNumber.from(0);
+
+    if (balance.lt(threshold)) {
+      topUp = (topUpTarget.gt(threshold) ? topUpTarget : threshold).sub(
+        balance
+      );
+      topUp = topUp.gt(maxTopUp) ? maxTopUp : topUp;
+    }
+
+    balances.push({ account, balance, threshold, topUp });
+  }
+
+  return balances;
+}
+
+export async function getTokenBalances(
+  provider: Provider,
+  config: BalanceConfig
+): Promise<TokenBalance[]> {
+  const balances = [];
+
+  for (const tokenConfig of config.tokens) {
+    const token = new Contract(tokenConfig.token, erc20, provider);
+    const balance = await token.balanceOf(tokenConfig.holder);
+    const decimals = await token.decimals();
+
+    balances.push({
+      ...tokenConfig,
+      balance,
+      decimals,
+      isLow: balance.lt(parseUnits(tokenConfig.min, decimals)),
+    });
+  }
+
+  return balances;
+}
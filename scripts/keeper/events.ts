@@ -0,0 +1,132 @@
+import { BigNumber, ethers } from "ethers";
+import { TransactionReceipt } from "@ethersproject/providers";
+
+const { formatUnits } = ethers.utils;
+
+// Vault lifecycle events, InitiateGnosisAuction is emitted from the
+// GnosisAuction library and so is missing from the vault ABIs
+const lifecycleEvents = new ethers.utils.Interface([
+  "event NewOptionStrikeSelected(uint256 strikePrice, uint256 delta)",
+  "event OpenShort(address indexed options, uint256 depositAmount, address indexed manager)",
+  "event CloseShort(address indexed options, uint256 withdrawAmount, address indexed manager)",
+  "event InitiateGnosisAuction(address indexed auctioningToken, address indexed biddingToken, uint256 auctionCounter, address indexed manager)",
+  "event NewOffer(uint256 swapId, address seller, address oToken, address biddingToken, uint256 minPrice, uint256 minBidSize, uint256 totalSize)",
+  "event Transfer(address indexed from, address indexed to, uint256 value)",
+]);
+
+export interface StepOutcome {
+  strikePrice?: BigNumber;
+  delta?: BigNumber;
+  oToken?: string;
+  depositAmount?: BigNumber;
+  withdrawAmount?: BigNumber;
+  minted?: BigNumber;
+  auctionID?: BigNumber;
+  swapId?: BigNumber;
+}
+
+/**
+ * Reads what a lifecycle step did from the events in its receipt
+ * @param vaultAddress is the vault the step was called on
+ */
+export const getStepOutcome = (
+  vaultAddress: string,
+  receipt: TransactionReceipt
+) => {
+  const outcome: StepOutcome = {};
+  const mints: { [token: string]: BigNumber } = {};
+
+  for (const log of receipt.logs) {
+    let event: ethers.utils.LogDescription;
+    try {
+      event = lifecycleEvents.parseLog(log);
+    } catch (error) {
+      continue; // eslint-disable-line no-continue
+    }
+
+    if (event.name === "Transfer") {
+      // oTokens are minted straight to the vault
+      if (
+        event.args.from === ethers.constants.AddressZero &&
+        event.args.to.toLowerCase() === vaultAddress.toLowerCase()
+      ) {
+        mints[log.address.toLowerCase()] = event.args.value;
+      }
+      continue; // eslint-disable-line no-continue
+    }
+
+    // Offers are emitted by the Swap contract, with the vault as seller
+    if (event.name === "NewOffer") {
+      if (event.args.seller.toLowerCase() === vaultAddress.toLowerCase()) {
+        outcome.swapId = event.args.swapId;
+      }
+      continue; // eslint-disable-line no-continue
+    }
+
+    if (log.address.toLowerCase() !== vaultAddress.toLowerCase()) {
+      continue; // eslint-disable-line no-continue
+    }
+
+    switch (event.name) {
+      case "NewOptionStrikeSelected":
+        outcome.strikePrice = event.args.strikePrice;
+        outcome.delta = event.args.delta;
+        break;
+      case "OpenShort":
+        outcome.oToken = event.args.options;
+        outcome.depositAmount = event.args.depositAmount;
+        break;
+      case "CloseShort":
+        outcome.withdrawAmount = event.args.withdrawAmount;
+        break;
+      case "InitiateGnosisAuction":
+        outcome.auctionID = event.args.auctionCounter;
+        break;
+      default:
+        break;
+    }
+  }
+
+  if (outcome.oToken) {
+    outcome.minted = mints[outcome.oToken.toLowerCase()];
+  }
+
+  return outcome;
+};
+
+/**
+ * One line summary of a step outcome, amounts of the vault asset are
+ * formatted with its decimals
+ */
+export const describeStepOutcome = (outcome: StepOutcome, decimals: number) => {
+  const parts = [];
+
+  if (outcome.withdrawAmount) {
+    parts.push(`withdrew ${formatUnits(outcome.withdrawAmount, decimals)}`);
+  }
+  if (outcome.strikePrice) {
+    parts.push(
+      `strike ${formatUnits(outcome.strikePrice, 8)} (delta ${formatUnits(
+        outcome.delta,
+        4
+      )})`
+    );
+  }
+  if (outcome.oToken) {
+    parts.push(`oToken ${outcome.oToken}`);
+  }
+  if (outcome.depositAmount) {
+    parts.push(`deposited ${formatUnits(outcome.depositAmount, decimals)}`);
+  }
+  if (outcome.minted) {
+    parts.push(`minted ${formatUnits(outcome.minted, 8)} oTokens`);
+  }
+  if (outcome.auctionID) {
+    parts.push(`auction ID ${outcome.auctionID}`);
+  }
+  if (outcome.swapId) {
+    parts.push(`swap ID ${outcome.swapId}`);
+  }
+
+  return parts.join(", ");
+};
@@ -0,0 +1,171 @@
+import { BigNumber, Contract, PopulatedTransaction, ethers } from "ethers";
+import { Provider } from "@ethersproject/providers";
+import {
+  CHAINID,
+  CHAINLINK_ETH_PRICER,
+  CHAINLINK_MIM_PRICER,
+  CHAINLINK_PERP_PRICER,
+  CHAINLINK_SUSHI_PRICER,
+  CHAINLINK_WBTC_PRICER,
+  CHAINLINK_WETH_PRICER,
+  CHAINLINK_WETH_PRICER_STETH,
+  GAMMA_ORACLE,
+  OPTION_PROTOCOL,
+  TD_ORACLE,
+} from "../../constants/constants";
+
+// Chainlink proxies number rounds as phaseId << 64 | aggregator round
+const PHASE_OFFSET = BigNumber.from(2).pow(64);
+
+// Oracles pricers write expiry prices to, per protocol
+const EXPIRY_ORACLES: Record<OPTION_PROTOCOL, { [chainId: number]: string }> = {
+  [OPTION_PROTOCOL.GAMMA]: GAMMA_ORACLE,
+  [OPTION_PROTOCOL.TD]: TD_ORACLE,
+};
+
+const CHAINLINK_PRICERS: { [chainId: number]: string }[] = [
+  CHAINLINK_WETH_PRICER,
+  CHAINLINK_WBTC_PRICER,
+  CHAINLINK_ETH_PRICER,
+  CHAINLINK_SUSHI_PRICER,
+  CHAINLINK_PERP_PRICER,
+  CHAINLINK_MIM_PRICER,
+  { [CHAINID.ETH_MAINNET]: CHAINLINK_WETH_PRICER_STETH },
+];
+
+const expiryPriceInterface = new ethers.utils.Interface([
+  "function asset() view returns (address)",
+  "function aggregator() view returns (address)",
+  "function oracle() view returns (address)",
+  "function setExpiryPriceInOracle(uint256 expiryTimestamp, uint80 roundId)",
+  "function getExpiryPrice(address asset, uint256 expiryTimestamp) view returns (uint256, bool)",
+  "function isLockingPeriodOver(address asset, uint256 expiryTimestamp) view returns (bool)",
+  "function latestRound() view returns (uint256)",
+  "function getTimestamp(uint256 roundId) view returns (uint256)",
+]);
+
+export type ExpiryPriceStatus =
+  | "ready"
+  | "alreadySet"
+  | "locked"
+  | "roundPending"
+  | "unknownOracle";
+
+export interface ExpiryPriceResult {
+  pricer: string;
+  asset: string;
+  protocol?: string;
+  status: ExpiryPriceStatus;
+  roundId?: BigNumber;
+  tx?: PopulatedTransaction;
+}
+
+/**
+ * Every Chainlink pricer deployed on the chain, without duplicates
+ */
+export const getChainlinkPricers = (chainId: number) => [
+  ...new Set(
+    CHAINLINK_PRICERS.map((pricers) => pricers[chainId])
+      .filter(Boolean)
+      .map((pricer) => ethers.utils.getAddress(pricer))
+  ),
+];
+
+/**
+ * Finds the first round of the aggregator's current phase reported at or
+ * after the expiry, the round Chainlink pricers accept for it
+ * @return null while no round has been reported since the expiry
+ */
+export async function findExpiryRoundId(
+  aggregator: Contract,
+  expiryTimestamp: number
+) {
+  const latestRound: BigNumber = await aggregator.latestRound();
+
+  if ((await aggregator.getTimestamp(latestRound)).lt(expiryTimestamp)) {
+    return null;
+  }
+
+  let low = latestRound.div(PHASE_OFFSET).mul(PHASE_OFFSET).add(1);
+  let high = latestRound;
+
+  if ((await aggregator.getTimestamp(low)).gte(expiryTimestamp)) {
+    throw new Error(
+      `${aggregator.address} has no round before ${expiryTimestamp} in its current phase`
+    );
+  }
+
+  // Timestamps only grow with round IDs, low stays before the expiry
+  while (high.sub(low).gt(1)) {
+    const middle = low.add(high).div(2);
+    if ((await aggregator.getTimestamp(middle)).lt(expiryTimestamp)) {
+      low = middle;
+    } else {
+      high = middle;
+    }
+  }
+  return high;
+}
+
+const getProtocol = (chainId: number, oracleAddress: string) =>
+  Object.entries(EXPIRY_ORACLES).find(
+    ([, oracles]) =>
+      oracles[chainId] &&
+      oracles[chainId].toLowerCase() === oracleAddress.toLowerCase()
+  );
+
+/**
+ * Works out whether a pricer can set the expiry price in the Gamma or TD
+ * oracle it reports to, and builds the transaction when it can
+ */
+export async function getExpiryPriceUpdate(
+  provider: Provider,
+  chainId: number,
+  pricerAddress: string,
+  expiryTimestamp: number
+): Promise<ExpiryPriceResult> {
+  const pricer = new Contract(pricerAddress, expiryPriceInterface, provider);
+  const asset = await pricer.asset();
+  const result: ExpiryPriceResult = {
+    pricer: pricerAddress,
+    asset,
+    status: "unknownOracle",
+  };
+
+  const oracleAddress = await pricer.oracle();
+  const protocol = getProtocol(chainId, oracleAddress);
+  if (!protocol) {
+    return result;
+  }
+  result.protocol = OPTION_PROTOCOL[Number(protocol[0])];
+
+  const oracle = new Contract(oracleAddress, expiryPriceInterface, provider);
+
+  const [expiryPrice] = await oracle.getExpiryPrice(asset, expiryTimestamp);
+  if (expiryPrice.gt(0)) {
+    return { ...result, status: "alreadySet" };
+  }
+  if (!(await oracle.isLockingPeriodOver(asset, expiryTimestamp))) {
+    return { ...result, status: "locked" };
+  }
+
+  const aggregator = new Contract(
+    await pricer.aggregator(),
+    expiryPriceInterface,
+    provider
+  );
+  const roundId = await findExpiryRoundId(aggregator, expiryTimestamp);
+  if (!roundId) {
+    return { ...result, status: "roundPending" };
+  }
+
+  return {
+    ...result,
+    status: "ready",
+    roundId,
+    tx: await pricer.populateTransaction.setExpiryPriceInOracle(
+      expiryTimestamp,
+      roundId
+    ),
+  };
+}
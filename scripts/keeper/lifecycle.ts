@@ -0,0 +1,181 @@
+import { Contract, ethers } from "ethers";
+import { Provider } from "@ethersproject/providers";
+import { BYTES_ZERO } from "../../constants/constants";
+import { getNextVaultExpiry } from "../helpers/calendar";
+import { VaultFlavour } from "./vaults";
+import { getTreasuryRound } from "./treasury";
+
+const { AddressZero } = ethers.constants;
+
+// Treasury vaults leave USDC up to this amount undistributed, as
+// MIN_DUST_AMOUNT in RibbonTreasuryVault
+const TREASURY_MIN_DUST_AMOUNT = 10000000;
+
+// Keeper calls moving a vault to its next state, "wait" when the vault
+// is waiting on an option expiry, the commit delay or a running auction
+export type VaultStep =
+  | "commitAndClose"
+  | "closeRound"
+  | "commitNextOption"
+  | "rollToNextOption"
+  | "settleAuction"
+  | "settleOffer"
+  | "concludeOptionsSale"
+  | "chargeAndDistribute"
+  | "burnRemainingOTokens"
+  | "wait";
+
+const lifecycleProbe = new ethers.utils.Interface([
+  "function expiryTimestamp() view returns (uint256)",
+  "function balanceOf(address) view returns (uint256)",
+  "function swapOffers(uint256) view returns (address seller, address oToken, uint96 minPrice, address biddingToken, uint96 minBidSize, uint128 totalSize, uint128 availableSize, uint256 totalSales)",
+]);
+
+const getCommitStep = async (
+  vault: Contract,
+  flavour: VaultFlavour
+): Promise<VaultStep> => {
+  if (flavour !== "swap") {
+    return "commitAndClose";
+  }
+  // A swap vault closes its first round before committing any option
+  return (await vault.vaultState()).round === 1
+    ? "closeRound"
+    : "commitNextOption";
+};
+
+const getSaleStep = async (
+  provider: Provider,
+  vault: Contract,
+  flavour: VaultFlavour,
+  gnosisAuction: Contract,
+  timestamp: number
+): Promise<VaultStep> => {
+  const auctionID = await vault.optionAuctionID();
+
+  if (flavour === "swap") {
+    const swap = new Contract(
+      await vault.SWAP_CONTRACT(),
+      lifecycleProbe,
+      provider
+    );
+    // Nothing is left to settle once the bids took the whole offer. A
+    // partially filled offer is burnt by the keeper when no bids remain.
+    return (await swap.swapOffers(auctionID)).availableSize.isZero()
+      ? "burnRemainingOTokens"
+      : "settleOffer";
+  }
+
+  const { auctionEndDate, initialAuctionOrder } =
+    await gnosisAuction.auctionData(auctionID);
+
+  // Gnosis clears the initial order once an auction is settled
+  if (initialAuctionOrder !== BYTES_ZERO) {
+    if (auctionEndDate.gt(timestamp)) {
+      return "wait";
+    }
+    return flavour === "treasury" ? "concludeOptionsSale" : "settleAuction";
+  }
+
+  if (flavour === "treasury") {
+    const usdc = new Contract(await vault.USDC(), lifecycleProbe, provider);
+    if ((await usdc.balanceOf(vault.address)).gt(TREASURY_MIN_DUST_AMOUNT)) {
+      return "chargeAndDistribute";
+    }
+  }
+
+  return "burnRemainingOTokens";
+};
+
+/**
+ * Reads the vault's option state, and the auction or swap offer selling
+ * its current option, to find the next call the vault needs
+ * @param vault is the vault contract with its flavour's ABI
+ * @param gnosisAuction is the Gnosis EasyAuction of the network
+ */
+export async function getNextStep(
+  provider: Provider,
+  vault: Contract,
+  flavour: VaultFlavour,
+  gnosisAuction: Contract
+): Promise<VaultStep> {
+  const { timestamp } = await provider.getBlock("latest");
+  const { currentOption, nextOption, nextOptionReadyAt } =
+    await vault.optionState();
+
+  if (currentOption === AddressZero) {
+    if (nextOption === AddressZero) {
+      return getCommitStep(vault, flavour);
+    }
+    return timestamp >= nextOptionReadyAt ? "rollToNextOption" : "wait";
+  }
+
+  const otoken = new Contract(currentOption, lifecycleProbe, provider);
+
+  if ((await otoken.expiryTimestamp()).lte(timestamp)) {
+    return flavour === "swap" ? "closeRound" : "commitAndClose";
+  }
+
+  const step = await getSaleStep(
+    provider,
+    vault,
+    flavour,
+    gnosisAuction,
+    timestamp
+  );
+
+  // Nothing left to burn once the sale is over
+  if (
+    step === "burnRemainingOTokens" &&
+    (await otoken.balanceOf(vault.address)).isZero()
+  ) {
+    return "wait";
+  }
+  return step;
+}
+
+/**
+ * Expiry of the option the vault commits to next, as of the latest block
+ * @param vault is the vault contract with its flavour's ABI
+ */
+export async function getCommitExpiry(
+  provider: Provider,
+  vault: Contract,
+  flavour: VaultFlavour
+): Promise<number> {
+  if (flavour === "treasury") {
+    return (await getTreasuryRound(provider, vault)).expiry;
+  }
+
+  const { currentOption } = await vault.optionState();
+  const { timestamp } = await provider.getBlock("latest");
+  return getNextVaultExpiry(
+    currentOption === AddressZero
+      ? null
+      : (
+          await new Contract(
+            currentOption,
+            lifecycleProbe,
+            provider
+          ).expiryTimestamp()
+        ).toNumber(),
+    timestamp
+  );
+}
+
+/**
+ * Builds the transaction taking the vault through the step. settleOffer
+ * needs signed bids and is built by the keeper itself.
+ */
+export async function populateStep(
+  vault: Contract,
+  step: VaultStep,
+  gnosisAuction: Contract
+) {
+  if (step === "settleAuction") {
+    return gnosisAuction.populateTransaction.settleAuction(
+      (await vault.optionAuctionID()).toString()
+    );
+  }
+  return vault.populateTransaction[`${step}()`]();
+}
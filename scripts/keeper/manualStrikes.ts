@@ -0,0 +1,177 @@
+import * as fs from "fs";
+import { STRIKE_STEP } from "../utils/constants";
+import defaultConfig from "../../constants/keeper-manual-strikes.json";
+
+require("dotenv").config();
+
+// Strikes the delta model tries beyond the first one out of the money
+const MAX_STEPS = 1000;
+// Absorbs float error when dividing strikes by their step
+const EPSILON = 1e-9;
+
+// delta: the first strike out of the money whose Black-Scholes delta is at
+// most `delta`, from the Chainlink price and the keeper's combined vol
+// fixed: the `strike` of the vault's settings
+export type StrikeModel = "delta" | "fixed";
+
+interface ManualStrikeSettings {
+  model: StrikeModel;
+  // Target delta of the delta model, as a fraction
+  delta: number;
+  // Strike of the fixed model, in USD
+  strike?: number;
+  // Strike increment in USD, STRIKE_STEP of the underlying by default
+  step?: number;
+}
+
+export interface ManualStrikeConfig {
+  // Proposed strikes wait for approve-strikes before they are set
+  approval: boolean;
+  default: ManualStrikeSettings;
+  vaults: { [vaultName: string]: Partial<ManualStrikeSettings> };
+}
+
+export interface ModelInputs {
+  // Price of the underlying in USD
+  spot: number;
+  // Annualized vol as a fraction
+  vol: number;
+  // Time to expiry
+  years: number;
+}
+
+export interface ModelStrike {
+  // In USD, on the step grid
+  strike: number;
+  // Delta of the strike under the model, null for fixed strikes
+  delta: number | null;
+}
+
+/**
+ * Reads the manual strike config from KEEPER_MANUAL_STRIKES when set,
+ * constants/keeper-manual-strikes.json otherwise
+ */
+export const loadManualStrikeConfig = (): ManualStrikeConfig =>
+  process.env.KEEPER_MANUAL_STRIKES
+    ? JSON.parse(fs.readFileSync(process.env.KEEPER_MANUAL_STRIKES, "utf8"))
+    : (defaultConfig as ManualStrikeConfig);
+
+export const getManualStrikeSettings = (
+  config: ManualStrikeConfig,
+  vaultName: string
+): ManualStrikeSettings => ({ ...config.default, ...config.vaults[vaultName] });
+
+/**
+ * Strike increment of the vault in USD
+ * @param symbols are the underlying's symbol and the asset it is quoted as,
+ * e.g. WETH and ETH, looked up in STRIKE_STEP in that order
+ */
+export const getStrikeStep = (
+  symbols: string[],
+  settings: ManualStrikeSettings
+) => {
+  if (settings.step) {
+    return settings.step;
+  }
+
+  const steps: { [symbol: string]: number } = STRIKE_STEP;
+  const symbol = symbols.find((candidate) => steps[candidate]);
+  if (!symbol) {
+    throw new Error(`no STRIKE_STEP for ${symbols.join(" or ")}`);
+  }
+  return steps[symbol] / 1e8;
+};
+
+const onGrid = (units: number, step: number) =>
+  Number((units * step).toFixed(8));
+
+/**
+ * Rounds the strike to a multiple of the step, away from the money
+ */
+export const roundToStep = (strike: number, step: number, isPut: boolean) =>
+  onGrid(
+    isPut
+      ? Math.floor(strike / step + EPSILON)
+      : Math.ceil(strike / step - EPSILON),
+    step
+  );
+
+// Abramowitz and Stegun 7.1.26, accurate to 1.5e-7
+const erf = (x: number) => {
+  const t = 1 / (1 + 0.3275911 * Math.abs(x));
+  const y =
+    1 -
+    ((((1.061405429 * t - 1.453152027) * t + 1.421413741) * t - 0.284496736) *
+      t +
+      0.254829592) *
+      t *
+      Math.exp(-x * x);
+  return x < 0 ? -y : y;
+};
+
+const normalCdf = (x: number) => (1 + erf(x / Math.SQRT2)) / 2;
+
+/**
+ * Black-Scholes delta without rates, positive for puts as well
+ */
+export const getOptionDelta = (
+  spot: number,
+  strike: number,
+  { vol, years }: { vol: number; years: number },
+  isPut: boolean
+) => {
+  const d1 =
+    (Math.log(spot / strike) + (vol * vol * years) / 2) /
+    (vol * Math.sqrt(years));
+  return isPut ? normalCdf(-d1) : normalCdf(d1);
+};
+
+/**
+ * Closest strike to the money on the step grid whose delta is at most the
+ * target, walking out of the money like DeltaStrikeSelection
+ */
+export const getDeltaStrike = (
+  inputs: ModelInputs,
+  isPut: boolean,
+  targetDelta: number,
+  step: number
+): ModelStrike => {
+  // First strike out of the money
+  let units = isPut
+    ? Math.ceil(inputs.spot / step - EPSILON) - 1
+    : Math.floor(inputs.spot / step + EPSILON) + 1;
+
+  for (let i = 0; i < MAX_STEPS && units > 0; i++) {
+    const strike = onGrid(units, step);
+    const delta = getOptionDelta(inputs.spot, strike, inputs, isPut);
+    if (delta <= targetDelta) {
+      return { strike, delta };
+    }
+    units += isPut ? -1 : 1;
+  }
+  throw new Error(`no strike on a ${step} step has a delta of ${targetDelta}`);
+};
+
+/**
+ * Strike the vault's model points to
+ * @param inputs are the market inputs of the delta model, unused by
+ * fixed strikes
+ */
+export const getModelStrike = (
+  settings: ManualStrikeSettings,
+  step: number,
+  isPut: boolean,
+  inputs: ModelInputs | null
+): ModelStrike => {
+  switch (settings.model) {
+    case "fixed":
+      if (!settings.strike) {
+        throw new Error("no strike set for the fixed model");
+      }
+      return { strike: roundToStep(settings.strike, step, isPut), delta: null };
+    case "delta":
+      return getDeltaStrike(inputs, isPut, settings.delta, step);
+    default:
+      throw new Error(`Unknown strike model ${settings.model}`);
+  }
+};
@@ -0,0 +1,185 @@
+import * as http from "http";
+
+type MetricType = "counter" | "gauge";
+
+interface Metric {
+  type: MetricType;
+  help: string;
+  // Keyed by the rendered label set, e.g. {job="commitAndClose"}
+  values: Record<string, number>;
+}
+
+const metrics: Record<string, Metric> = {
+  keeper_job_last_success_timestamp_seconds: {
+    type: "gauge",
+    help: "Last time a job went through without failing, per vault",
+    values: {},
+  },
+  keeper_transactions_total: {
+    type: "counter",
+    help: "Keeper transactions by result",
+    values: {},
+  },
+  keeper_gas_spent_total: {
+    type: "counter",
+    help: "Fees paid by the keeper in the native token",
+    values: {},
+  },
+  keeper_balance: {
+    type: "gauge",
+    help: "Keeper balance in the native token",
+    values: {},
+  },
+  keeper_vault_round: {
+    type: "gauge",
+    help: "Current round of the vault",
+    values: {},
+  },
+  keeper_vault_next_option_ready_seconds: {
+    type: "gauge",
+    help: "Seconds until the vault can roll to its committed option",
+    values: {},
+  },
+};
+
+const startedAt = Math.floor(Date.now() / 1000);
+
+// Last success of each job per vault, reported by /health
+const lastSuccess: Record<string, Record<string, string>> = {};
+
+const renderLabels = (labels: Record<string, string>) => {
+  const pairs = Object.entries(labels).map(
+    ([key, value]) => `${key}="${value.replace(/"/gu, '\\"')}"`
+  );
+  return pairs.length > 0 ? `{${pairs.join(",")}}` : "";
+};
+
+export const setGauge = (
+  name: string,
+  labels: Record<string, string>,
+  value: number
+) => {
+  metrics[name].values[renderLabels(labels)] = value;
+};
+
+export const clearGauge = (name: string, labels: Record<string, string>) => {
+  delete metrics[name].values[renderLabels(labels)];
+};
+
+export const incrementCounter = (
+  name: string,
+  labels: Record<string, string>,
+  amount = 1
+) => {
+  const key = renderLabels(labels);
+  metrics[name].values[key] = (metrics[name].values[key] || 0) + amount;
+};
+
+export const recordJobSuccess = (job: string, vault: string) => {
+  const now = new Date();
+  lastSuccess[job] = { ...lastSuccess[job], [vault]: now.toISOString() };
+  setGauge(
+    "keeper_job_last_success_timestamp_seconds",
+    { job, vault },
+    Math.floor(now.getTime() / 1000)
+  );
+};
+
+/**
+ * Jobs, per vault, whose last success is older than their max age. A job
+ * yet to succeed counts from the keeper's start.
+ * @param maxAges are the max ages in seconds by job, other jobs are not checked
+ */
+export const getStaleJobs = (
+  maxAges: Record<string, number>,
+  now = Math.floor(Date.now() / 1000)
+) => {
+  const stale: string[] = [];
+
+  for (const [job, maxAge] of Object.entries(maxAges)) {
+    const successes = Object.entries(lastSuccess[job] || {});
+    if (successes.length === 0) {
+      if (now - startedAt > maxAge) {
+        stale.push(job);
+      }
+      continue; // eslint-disable-line no-continue
+    }
+    for (const [vault, at] of successes) {
+      if (now - Math.floor(Date.parse(at) / 1000) > maxAge) {
+        stale.push(`${job} (${vault})`);
+      }
+    }
+  }
+
+  return stale;
+};
+
+// Prometheus text exposition format
+export const renderMetrics = () =>
+  Object.entries(metrics)
+    .map(([name, { type, help, values }]) =>
+      [
+        `# HELP ${name} ${help}`,
+        `# TYPE ${name} ${type}`,
+        ...Object.entries(values).map(
+          ([labels, value]) => `${name}${labels} ${value}`
+        ),
+      ].join("\n")
+    )
+    .join("\n")
+    .concat("\n");
+
+/**
+ * Serves /health and /metrics on the host, localhost unless exposed on
+ * purpose. /health answers 503 while a job in `maxAges` has not succeeded
+ * for longer than its max age. `collect` refreshes the gauges read from
+ * the chain before each scrape, a failing collection is reported as 500.
+ * A server failing to listen is logged and leaves the keeper running.
+ */
+export const startMetricsServer = (
+  port: number,
+  host: string,
+  maxAges: Record<string, number>,
+  collect: () => Promise<void>
+) => {
+  const server = http.createServer(async (req, res) => {
+    if (req.url === "/health") {
+      const stale = getStaleJobs(maxAges);
+      res.writeHead(stale.length === 0 ? 200 : 503, {
+        "Content-Type": "application/json",
+      });
+      res.end(
+        JSON.stringify({
+          status: stale.length === 0 ? "ok" : "stale",
+          stale,
+          uptime: Math.floor(Date.now() / 1000) - startedAt,
+          lastSuccess,
+        })
+      );
+      return;
+    }
+
+    if (req.url === "/metrics") {
+      try {
+        await collect();
+        res.writeHead(200, { "Content-Type": "text/plain; version=0.0.4" });
+        res.end(renderMetrics());
+      } catch (error) {
+        res.writeHead(500, { "Content-Type": "text/plain" });
+        res.end(`${error}`);
+      }
+      return;
+    }
+
+    res.writeHead(404);
+    res.end();
+  });
+
+  server.on("error", (error) =>
+    console.log(`Keeper metrics server failed: ${error.message}`)
+  );
+  server.listen(port, host, () =>
+    console.log(`Keeper metrics on http://${host}:${port}/metrics`)
+  );
+  return server;
+};
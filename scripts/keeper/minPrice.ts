@@ -0,0 +1,273 @@
+import * as fs from "fs";
+import { BigNumber, Contract, ethers } from "ethers";
+import { Provider } from "@ethersproject/providers";
+import { BYTES_ZERO, SAVAX_ADDRESS } from "../../constants/constants";
+import OptionsPremiumPricer_ABI from "../../constants/abis/OptionsPremiumPricerInStables.json";
+import defaultConfig from "../../constants/keeper-min-price.json";
+
+require("dotenv").config();
+
+const { formatUnits, parseUnits } = ethers.utils;
+
+const WAD = parseUnits("1", 18);
+// Vault.PREMIUM_DISCOUNT_MULTIPLIER * 100
+const PREMIUM_DISCOUNT_BASE = 1000;
+
+interface MinPriceSettings {
+  // Lowest min price set on a vault, in units of the vault asset
+  floor: string;
+  // Largest move from last round's clearing price, in percent
+  maxDeviation: number;
+}
+
+export interface MinPriceConfig {
+  default: MinPriceSettings;
+  vaults: { [vaultName: string]: Partial<MinPriceSettings> };
+}
+
+// asset: the vault sells options on the asset it holds
+// yearn: RibbonThetaYearnVault, collateral is a yearn vault share
+// wsteth: RibbonThetaSTETHVault, collateral is wstETH
+// savax: asset is sAVAX, priced by its pricer through SAvaxOracle
+type Collateral = "asset" | "yearn" | "wsteth" | "savax";
+
+export interface MinPrice {
+  // Discounted premium as quoted by the pricer, 18 decimals
+  premium: BigNumber;
+  // Premium in the vault's collateral once the floor applies, 18 decimals
+  minPrice: BigNumber;
+  // Clearing price of the vault's last auction, 18 decimals
+  lastClearingPrice: BigNumber | null;
+}
+
+const minPriceProbe = new ethers.utils.Interface([
+  "function collateralToken() view returns (address)",
+  "function stEthPerToken() view returns (uint256)",
+  "function pricePerShare() view returns (uint256)",
+  "function decimals() view returns (uint8)",
+  "function strikePrice() view returns (uint256)",
+  "function expiryTimestamp() view returns (uint256)",
+  "function isPut() view returns (bool)",
+]);
+
+/**
+ * Reads the min price config from KEEPER_MIN_PRICE when set,
+ * constants/keeper-min-price.json otherwise
+ */
+export const loadMinPriceConfig = (): MinPriceConfig =>
+  process.env.KEEPER_MIN_PRICE
+    ? JSON.parse(fs.readFileSync(process.env.KEEPER_MIN_PRICE, "utf8"))
+    : (defaultConfig as MinPriceConfig);
+
+export const getMinPriceSettings = (
+  config: MinPriceConfig,
+  vaultName: string
+): MinPriceSettings => ({ ...config.default, ...config.vaults[vaultName] });
+
+const tryCall = async (contract: Contract, functionName: string) => {
+  try {
+    return await contract[functionName]();
+  } catch (error) {
+    return null;
+  }
+};
+
+const getCollateral = async (
+  provider: Provider,
+  vault: Contract,
+  chainId: number
+): Promise<[Collateral, Contract | null]> => {
+  const probe = new Contract(vault.address, minPriceProbe, provider);
+  const collateralToken = await tryCall(probe, "collateralToken");
+
+  if (collateralToken) {
+    const collateral = new Contract(collateralToken, minPriceProbe, provider);
+    if (await tryCall(collateral, "stEthPerToken")) {
+      return ["wsteth", collateral];
+    }
+    return ["yearn", collateral];
+  }
+
+  const { asset } = await vault.vaultParams();
+  if (
+    SAVAX_ADDRESS[chainId] &&
+    asset.toLowerCase() === SAVAX_ADDRESS[chainId].toLowerCase()
+  ) {
+    return ["savax", null];
+  }
+  return ["asset", null];
+};
+
+/**
+ * Converts a premium quoted in the asset into the vault's collateral,
+ * the same adjustment the yearn and stETH vaults make on commit
+ */
+export const toCollateralPremium = async (
+  provider: Provider,
+  vault: Contract,
+  chainId: number,
+  premium: BigNumber
+) => {
+  const [collateral, collateralToken] = await getCollateral(
+    provider,
+    vault,
+    chainId
+  );
+
+  switch (collateral) {
+    case "yearn": {
+      const decimals = await collateralToken.decimals();
+      const pricePerShare = (await collateralToken.pricePerShare()).mul(
+        BigNumber.from(10).pow(18 - decimals)
+      );
+      return premium.mul(pricePerShare).add(WAD.div(2)).div(WAD);
+    }
+    case "wsteth":
+      return premium
+        .mul(await collateralToken.stEthPerToken())
+        .add(WAD.div(2))
+        .div(WAD);
+    // SAvaxOracle already prices the underlying in sAVAX
+    case "savax":
+    default:
+      return premium;
+  }
+};
+
+/**
+ * Price per oToken the last auction cleared at, in units of the
+ * vault asset with 18 decimals
+ * @return null when the vault has no settled auction
+ */
+const getLastClearingPrice = async (
+  vault: Contract,
+  gnosisAuction: Contract,
+  decimals: number
+) => {
+  const auctionID = await vault.optionAuctionID();
+  if (auctionID.isZero()) {
+    return null;
+  }
+
+  const { clearingPriceOrder } = await gnosisAuction.auctionData(auctionID);
+  if (clearingPriceOrder === BYTES_ZERO) {
+    return null;
+  }
+
+  // Orders pack the oTokens bought and the asset paid for them
+  const buyAmount = BigNumber.from(`0x${clearingPriceOrder.substring(18, 42)}`);
+  const sellAmount = BigNumber.from(`0x${clearingPriceOrder.substring(42)}`);
+  if (buyAmount.isZero()) {
+    return null;
+  }
+
+  return sellAmount
+    .mul(BigNumber.from(10).pow(36 - decimals))
+    .div(buyAmount.mul(BigNumber.from(10).pow(10)));
+};
+
+/**
+ * Premium the pricer quotes for one of the vault's options with the
+ * vault's premiumDiscount, in the asset with 18 decimals
+ * @param oToken is the option priced
+ */
+export async function getDiscountedPremium(
+  provider: Provider,
+  vault: Contract,
+  pricerAddress: string,
+  oToken: string
+): Promise<BigNumber> {
+  const otoken = new Contract(oToken, minPriceProbe, provider);
+  const pricer = new Contract(
+    pricerAddress,
+    OptionsPremiumPricer_ABI,
+    provider
+  );
+
+  return (
+    await pricer.getPremium(
+      await otoken.strikePrice(),
+      await otoken.expiryTimestamp(),
+      await otoken.isPut()
+    )
+  )
+    .mul(await vault.premiumDiscount())
+    .div(PREMIUM_DISCOUNT_BASE);
+}
+
+/**
+ * Computes the min price of the option a vault committed to, as the vault
+ * would on commit: the pricer's premium with the vault's premiumDiscount,
+ * converted to the collateral of yearn and stETH vaults along with the
+ * floor. Throws when the price is off last round's clearing price by more
+ * than `maxDeviation`.
+ * @param vault is the vault contract, its next option must be committed
+ * @param pricerAddress is the OptionsPremiumPricer of the vault
+ */
+export async function getMinPrice(
+  provider: Provider,
+  vault: Contract,
+  chainId: number,
+  pricerAddress: string,
+  gnosisAuction: Contract,
+  settings: MinPriceSettings
+): Promise<MinPrice> {
+  const { nextOption } = await vault.optionState();
+  if (nextOption === ethers.constants.AddressZero) {
+    throw new Error("no option committed");
+  }
+
+  const premium = await getDiscountedPremium(
+    provider,
+    vault,
+    pricerAddress,
+    nextOption
+  );
+
+  // The floor is set in the asset and converted like the premium
+  const floor = await toCollateralPremium(
+    provider,
+    vault,
+    chainId,
+    parseUnits(settings.floor, 18)
+  );
+  const converted = await toCollateralPremium(
+    provider,
+    vault,
+    chainId,
+    premium
+  );
+  const minPrice = converted.gt(floor) ? converted : floor;
+
+  if (minPrice.isZero()) {
+    throw new Error("min price is 0");
+  }
+
+  const { decimals } = await vault.vaultParams();
+  const lastClearingPrice = await getLastClearingPrice(
+    vault,
+    gnosisAuction,
+    decimals
+  );
+
+  if (lastClearingPrice && !lastClearingPrice.isZero()) {
+    const deviation = minPrice
+      .sub(lastClearingPrice)
+      .abs()
+      .mul(100)
+      .div(lastClearingPrice);
+    if (deviation.gt(settings.maxDeviation)) {
+      throw new Error(
+        `min price ${formatUnits(
+          minPrice,
+          18
+        )} is ${deviation}% off last clearing price ${formatUnits(
+          lastClearingPrice,
+          18
+        )}`
+      );
+    }
+  }
+
+  return { premium, minPrice, lastClearingPrice };
+}
@@ -0,0 +1,119 @@
+import { Contract, ethers } from "ethers";
+import { CHAINID } from "../../constants/constants";
+import deployments from "../../constants/deployments-mainnet-cron.json";
+import { Networks } from "../helpers/getDefaultEthersProvider";
+
+export interface KeeperNetwork {
+  chainId: number;
+  name: Networks;
+  explorer: string;
+  // Highest fee per gas the keeper pays, in gwei (nAVAX on avalanche)
+  maxFeeGwei: number;
+}
+
+export interface VaultDeployment {
+  address: string;
+  strikeSelection?: string;
+  optionsPremiumPricer?: string;
+}
+
+export interface NetworkDeployments {
+  vaults: { [vaultName: string]: VaultDeployment };
+  univ3pools: { [poolName: string]: string };
+}
+
+/**
+ * Networks the keeper can run the vault lifecycle on, keyed by CHAINID
+ */
+export const KEEPER_NETWORKS: { [chainId: number]: KeeperNetwork } = {
+  [CHAINID.ETH_MAINNET]: {
+    chainId: CHAINID.ETH_MAINNET,
+    name: "mainnet",
+    explorer: "https://etherscan.io",
+    maxFeeGwei: 300,
+  },
+  [CHAINID.ETH_KOVAN]: {
+    chainId: CHAINID.ETH_KOVAN,
+    name: "kovan",
+    explorer: "https://kovan.etherscan.io",
+    maxFeeGwei: 100,
+  },
+  [CHAINID.POLYGON_MAINNET]: {
+    chainId: CHAINID.POLYGON_MAINNET,
+    name: "polygon",
+    explorer: "https://polygonscan.com",
+    maxFeeGwei: 1500,
+  },
+  [CHAINID.POLYGON_TESTNET]: {
+    chainId: CHAINID.POLYGON_TESTNET,
+    name: "mumbai",
+    explorer: "https://mumbai.polygonscan.com",
+    maxFeeGwei: 500,
+  },
+  [CHAINID.AVAX_MAINNET]: {
+    chainId: CHAINID.AVAX_MAINNET,
+    name: "avax",
+    explorer: "https://snowtrace.io",
+    maxFeeGwei: 500,
+  },
+  [CHAINID.AVAX_FUJI]: {
+    chainId: CHAINID.AVAX_FUJI,
+    name: "fuji",
+    explorer: "https://testnet.snowtrace.io",
+    maxFeeGwei: 500,
+  },
+};
+
+export const getKeeperNetwork = (chainId: number) => {
+  const keeperNetwork = KEEPER_NETWORKS[chainId];
+  if (!keeperNetwork) {
+    throw new Error(`Keeper does not support chain ${chainId}`);
+  }
+  return keeperNetwork;
+};
+
+export const getNetworkDeployments = (keeperNetwork: KeeperNetwork) => {
+  const networkDeployments = (
+    deployments as { [network: string]: NetworkDeployments }
+  )[keeperNetwork.name];
+  if (!networkDeployments) {
+    throw new Error(`No keeper deployments for ${keeperNetwork.name}`);
+  }
+  return networkDeployments;
+};
+
+/**
+ * Address of a vault named as in the deployments, or given by address
+ */
+export const getVaultAddress = (
+  networkDeployments: NetworkDeployments,
+  vault: string
+) => {
+  const address = networkDeployments.vaults[vault]
+    ? networkDeployments.vaults[vault].address
+    : vault;
+  if (!ethers.utils.isAddress(address)) {
+    throw new Error(`Unknown vault ${vault}`);
+  }
+  return address;
+};
+
+// Vaults deployed without an entry for their strike selection or pricer
+// fall back to the addresses the vault itself points to
+export const getStrikeSelectionAddress = async (
+  vault: Contract,
+  vaultDeployment: VaultDeployment
+): Promise<string> =>
+  vaultDeployment.strikeSelection || (await vault.strikeSelection());
+
+export const getOptionsPremiumPricerAddress = async (
+  vault: Contract,
+  vaultDeployment: VaultDeployment
+): Promise<string> =>
+  vaultDeployment.optionsPremiumPricer || (await vault.optionsPremiumPricer());
+
+export const txLink = (keeperNetwork: KeeperNetwork, hash: string) =>
+  `<${keeperNetwork.explorer}/tx/${hash}>`;
+
+export const auctionLink = (keeperNetwork: KeeperNetwork, auctionID: number) =>
+  `<https://gnosis-auction.eth.link/#/auction?auctionId=${auctionID}&chainId=${keeperNetwork.chainId}>`;
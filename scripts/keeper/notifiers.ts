@@ -0,0 +1,163 @@
+import * as fs from "fs";
+import axios from "axios";
+import { Client, TextChannel } from "discord.js";
+import defaultConfig from "../../constants/keeper-notifiers.json";
+
+require("dotenv").config();
+
+// announcement: public posts for auction participants
+// transaction: links to the transactions the keeper sent
+// report: forecasts, distributions and other operator information
+export type MessageType = "announcement" | "transaction" | "report";
+export type Severity = "info" | "warning" | "error";
+
+export interface Notification {
+  type: MessageType;
+  severity: Severity;
+  message: string;
+}
+
+interface SinkConfig {
+  type: "discord" | "webhook" | "file" | "stdout";
+  // discord: channel to post in and the mention prefixed to announcements
+  channelId?: string;
+  mention?: string;
+  // webhook: env variable holding the url, keeping it out of the repo
+  urlEnv?: string;
+  // file: path messages are appended to
+  path?: string;
+}
+
+// Sends a message to `sinks` when its type and severity are listed,
+// a route without `types` or `severities` matches any
+interface RouteConfig {
+  types?: MessageType[];
+  severities?: Severity[];
+  sinks: string[];
+}
+
+export interface NotifierConfig {
+  sinks: Record<string, SinkConfig>;
+  routes: RouteConfig[];
+}
+
+const DISCORD_MESSAGE_LIMIT = 2000;
+
+let discordClient: Promise<Client>;
+
+// Logs in on first use, a keeper without Discord sinks never needs a token
+const getDiscordClient = () => {
+  if (!discordClient) {
+    const client = new Client();
+    discordClient = new Promise((resolve, reject) => {
+      client.once("ready", () => {
+        client.user.setPresence({
+          activity: { name: "vault status", type: "WATCHING" },
+          status: "idle",
+        });
+        resolve(client);
+      });
+      client.login(process.env.DISCORD_TOKEN).catch(reject);
+    });
+  }
+  return discordClient;
+};
+
+const sendToSink = async (
+  sink: SinkConfig,
+  { type, severity, message }: Notification
+) => {
+  switch (sink.type) {
+    case "discord": {
+      const channel = (await getDiscordClient()).channels.cache.get(
+        sink.channelId
+      ) as TextChannel;
+      const text =
+        type === "announcement" && sink.mention
+          ? `${sink.mention} ${message}`
+          : message;
+      for (let i = 0; i < text.length; i += DISCORD_MESSAGE_LIMIT) {
+        await channel.send(text.slice(i, i + DISCORD_MESSAGE_LIMIT));
+      }
+      break;
+    }
+    case "webhook":
+      // Slack compatible payload
+      await axios.post(process.env[sink.urlEnv], { text: message });
+      break;
+    case "file":
+      fs.appendFileSync(
+        sink.path,
+        `${new Date().toISOString()} ${type} ${severity}: ${message}\n`
+      );
+      break;
+    default:
+      console.log(message);
+  }
+};
+
+// Sinks missing their credentials are left out so the keeper can run headless
+const isConfigured = (name: string, sink: SinkConfig) => {
+  if (sink.type === "discord" && !process.env.DISCORD_TOKEN) {
+    console.log(`Notifier ${name} disabled, DISCORD_TOKEN is not set`);
+    return false;
+  }
+  if (sink.type === "webhook" && !process.env[sink.urlEnv]) {
+    console.log(`Notifier ${name} disabled, ${sink.urlEnv} is not set`);
+    return false;
+  }
+  return true;
+};
+
+/**
+ * Reads the routing config from KEEPER_NOTIFIERS when set,
+ * constants/keeper-notifiers.json otherwise
+ */
+export const loadNotifierConfig = (): NotifierConfig =>
+  process.env.KEEPER_NOTIFIERS
+    ? JSON.parse(fs.readFileSync(process.env.KEEPER_NOTIFIERS, "utf8"))
+    : (defaultConfig as NotifierConfig);
+
+/**
+ * Returns a function sending each notification to every sink routed to
+ * its type and severity. A failing sink never fails the keeper.
+ */
+export const createNotifier = (config: NotifierConfig) => {
+  for (const route of config.routes) {
+    for (const name of route.sinks) {
+      if (!config.sinks[name]) {
+        throw new Error(`Notifier route points to unknown sink ${name}`);
+      }
+    }
+  }
+
+  const sinks = Object.fromEntries(
+    Object.entries(config.sinks).filter(([name, sink]) =>
+      isConfigured(name, sink)
+    )
+  );
+
+  return async (notification: Notification) => {
+    const names = new Set<string>();
+
+    for (const route of config.routes) {
+      if (
+        (!route.types || route.types.includes(notification.type)) &&
+        (!route.severities || route.severities.includes(notification.severity))
+      ) {
+        route.sinks.forEach((name) => names.add(name));
+      }
+    }
+
+    for (const name of names) {
+      if (!sinks[name]) {
+        continue; // eslint-disable-line no-continue
+      }
+      try {
+        await sendToSink(sinks[name], notification);
+      } catch (error) {
+        console.log(`Notifier ${name} failed: ${error}`);
+      }
+    }
+  };
+};
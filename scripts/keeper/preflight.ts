@@ -0,0 +1,165 @@
+import * as fs from "fs";
+import { Contract, ethers } from "ethers";
+import { Provider } from "@ethersproject/providers";
+import { VaultDeployment } from "./networks";
+import defaultConfig from "../../constants/keeper-preflight.json";
+
+require("dotenv").config();
+
+// Chainlink answers a little after the heartbeat when the network is busy
+const HEARTBEAT_GRACE = 300;
+
+interface PreflightSettings {
+  // Longest time since the keeper set or confirmed the vault's vol, in seconds
+  maxVolAge: number;
+  // Heartbeats of the pricer's underlying and stables feeds, in seconds
+  underlyingHeartbeat: number;
+  stablesHeartbeat: number;
+}
+
+export interface PreflightConfig {
+  default: PreflightSettings;
+  vaults: { [vaultName: string]: Partial<PreflightSettings> };
+}
+
+const preflightInterface = new ethers.utils.Interface([
+  "function optionsPremiumPricer() view returns (address)",
+  "function volatilityOracle() view returns (address)",
+  "function optionId() view returns (bytes32)",
+  "function priceOracle() view returns (address)",
+  "function stablesOracle() view returns (address)",
+  "function annualizedVol(bytes32 optionId) view returns (uint256)",
+  "function latestAnswer() view returns (int256)",
+  "function latestTimestamp() view returns (uint256)",
+]);
+
+/**
+ * Reads the preflight config from KEEPER_PREFLIGHT when set,
+ * constants/keeper-preflight.json otherwise
+ */
+export const loadPreflightConfig = (): PreflightConfig =>
+  process.env.KEEPER_PREFLIGHT
+    ? JSON.parse(fs.readFileSync(process.env.KEEPER_PREFLIGHT, "utf8"))
+    : (defaultConfig as PreflightConfig);
+
+export const getPreflightSettings = (
+  config: PreflightConfig,
+  vaultName: string
+): PreflightSettings => ({ ...config.default, ...config.vaults[vaultName] });
+
+const tryCall = async (contract: Contract, functionName: string) => {
+  try {
+    return await contract[functionName]();
+  } catch (error) {
+    return null;
+  }
+};
+
+const formatAge = (seconds: number) => `${(seconds / 3600).toFixed(1)}h`;
+
+const getFeedErrors = async (
+  provider: Provider,
+  label: string,
+  feed: string,
+  heartbeat: number,
+  now: number
+) => {
+  const aggregator = new Contract(feed, preflightInterface, provider);
+  const errors: string[] = [];
+
+  const age = now - (await aggregator.latestTimestamp()).toNumber();
+  if (age > heartbeat + HEARTBEAT_GRACE) {
+    errors.push(
+      `${label} feed ${feed} last answered ${formatAge(
+        age
+      )} ago, its heartbeat is ${formatAge(heartbeat)}`
+    );
+  }
+  if ((await aggregator.latestAnswer()).lte(0)) {
+    errors.push(`${label} feed ${feed} answers a price of 0 or less`);
+  }
+
+  return errors;
+};
+
+/**
+ * Reasons the vault's premium pricer would revert or misprice: a
+ * ManualVolOracle vol which is 0 or was not set or confirmed by the
+ * keeper for `maxVolAge`, or an underlying or stables feed silent for
+ * longer than its heartbeat
+ * @param manualVolOracle is the chain's ManualVolOracle, if any
+ * @param volChecks are the times the keeper last set or confirmed each
+ * option ID's vol
+ * @param now is the current timestamp
+ */
+export async function getPreflightErrors(
+  provider: Provider,
+  vaultDeployment: VaultDeployment,
+  manualVolOracle: string | undefined,
+  volChecks: Record<string, number>,
+  settings: PreflightSettings,
+  now: number
+) {
+  const pricer = new Contract(
+    vaultDeployment.optionsPremiumPricer ||
+      (await new Contract(
+        vaultDeployment.address,
+        preflightInterface,
+        provider
+      ).optionsPremiumPricer()),
+    preflightInterface,
+    provider
+  );
+  const errors: string[] = [];
+
+  const volatilityOracle: string = await pricer.volatilityOracle();
+  if (
+    manualVolOracle &&
+    volatilityOracle.toLowerCase() === manualVolOracle.toLowerCase()
+  ) {
+    const optionId: string = await pricer.optionId();
+    const oracle = new Contract(volatilityOracle, preflightInterface, provider);
+
+    if ((await oracle.annualizedVol(optionId)).isZero()) {
+      errors.push(
+        `ManualVolOracle has no vol for option ID ${optionId}, the commit would revert with !sSQRT`
+      );
+    } else if (!volChecks[optionId]) {
+      errors.push(
+        `the keeper has no record of setting the vol of option ID ${optionId}`
+      );
+    } else if (now - volChecks[optionId] > settings.maxVolAge) {
+      errors.push(
+        `the vol of option ID ${optionId} was last set or confirmed ${formatAge(
+          now - volChecks[optionId]
+        )} ago`
+      );
+    }
+  }
+
+  errors.push(
+    ...(await getFeedErrors(
+      provider,
+      "underlying",
+      await pricer.priceOracle(),
+      settings.underlyingHeartbeat,
+      now
+    ))
+  );
+
+  // Only pricers quoting premiums in stables read a stables feed
+  const stablesOracle = await tryCall(pricer, "stablesOracle");
+  if (stablesOracle) {
+    errors.push(
+      ...(await getFeedErrors(
+        provider,
+        "stables",
+        stablesOracle,
+        settings.stablesHeartbeat,
+        now
+      ))
+    );
+  }
+
+  return errors;
+}
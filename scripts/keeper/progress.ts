@@ -0,0 +1,162 @@
+import * as fs from "fs";
+import * as path from "path";
+import { VaultStep } from "./lifecycle";
+
+require("dotenv").config();
+
+// Transaction sent for a vault which the keeper has not seen mined yet
+export interface PendingStep {
+  step: VaultStep;
+  txHash: string;
+  nonce: number;
+  sentAt: number;
+}
+
+export interface KeeperProgress {
+  // Start time of each job which has not gone through every vault yet
+  jobs: Record<string, number>;
+  // Keyed by vault address
+  pending: Record<string, PendingStep>;
+}
+
+const PROGRESS_DIR =
+  process.env.KEEPER_PROGRESS_DIR ||
+  path.join(__dirname, "..", "..", ".keeper");
+
+// Write then rename so a crash never leaves a truncated file behind
+const writeJsonAtomic = (file: string, value: unknown) => {
+  fs.mkdirSync(PROGRESS_DIR, { recursive: true });
+  fs.writeFileSync(`${file}.tmp`, JSON.stringify(value, null, 2));
+  fs.renameSync(`${file}.tmp`, file);
+};
+
+const progressFile = (chainId: number) =>
+  path.join(PROGRESS_DIR, `progress-${chainId}.json`);
+
+export const getProgress = (chainId: number): KeeperProgress => {
+  if (!fs.existsSync(progressFile(chainId))) {
+    return { jobs: {}, pending: {} };
+  }
+  return JSON.parse(fs.readFileSync(progressFile(chainId), "utf8"));
+};
+
+const saveProgress = (chainId: number, progress: KeeperProgress) =>
+  writeJsonAtomic(progressFile(chainId), progress);
+
+export const startJob = (chainId: number, job: string) => {
+  const progress = getProgress(chainId);
+  progress.jobs[job] = Math.floor(Date.now() / 1000);
+  saveProgress(chainId, progress);
+};
+
+export const finishJob = (chainId: number, job: string) => {
+  const progress = getProgress(chainId);
+  delete progress.jobs[job];
+  saveProgress(chainId, progress);
+};
+
+export const setPendingStep = (
+  chainId: number,
+  vaultAddress: string,
+  pendingStep: PendingStep
+) => {
+  const progress = getProgress(chainId);
+  progress.pending[vaultAddress] = pendingStep;
+  saveProgress(chainId, progress);
+};
+
+export const clearPendingStep = (chainId: number, vaultAddress: string) => {
+  const progress = getProgress(chainId);
+  delete progress.pending[vaultAddress];
+  saveProgress(chainId, progress);
+};
+
+// Gas used by a mined keeper transaction
+export interface GasRecord {
+  minedAt: number;
+  gasUsed: string;
+}
+
+// Long enough to cover a full monthly treasury cycle
+const GAS_HISTORY_PERIOD = 35 * 24 * 3600;
+
+const gasHistoryFile = (chainId: number) =>
+  path.join(PROGRESS_DIR, `gas-${chainId}.json`);
+
+export const getGasHistory = (chainId: number): GasRecord[] => {
+  if (!fs.existsSync(gasHistoryFile(chainId))) {
+    return [];
+  }
+  return JSON.parse(fs.readFileSync(gasHistoryFile(chainId), "utf8"));
+};
+
+export const recordGasUsed = (chainId: number, gasUsed: string) => {
+  const now = Math.floor(Date.now() / 1000);
+  const history = getGasHistory(chainId).filter(
+    ({ minedAt }) => minedAt > now - GAS_HISTORY_PERIOD
+  );
+  history.push({ minedAt: now, gasUsed });
+
+  writeJsonAtomic(gasHistoryFile(chainId), history);
+};
+
+// Strike the keeper worked out for a vault's ManualStrikeSelection.
+// Proposed strikes wait for approve-strikes, approved ones are set on the
+// next commit.
+export interface StrikeProposal {
+  // Expiry of the option the strike is for
+  expiry: number;
+  isPut: boolean;
+  // In USD
+  strike: number;
+  // Delta of the strike under the model, null for strikes from the config
+  delta: number | null;
+  status: "proposed" | "approved" | "rejected" | "submitted";
+  proposedAt: number;
+}
+
+const strikeProposalsFile = (chainId: number) =>
+  path.join(PROGRESS_DIR, `strikes-${chainId}.json`);
+
+// Keyed by vault name
+export const getStrikeProposals = (
+  chainId: number
+): Record<string, StrikeProposal> => {
+  if (!fs.existsSync(strikeProposalsFile(chainId))) {
+    return {};
+  }
+  return JSON.parse(fs.readFileSync(strikeProposalsFile(chainId), "utf8"));
+};
+
+export const setStrikeProposal = (
+  chainId: number,
+  vaultName: string,
+  proposal: StrikeProposal
+) => {
+  const proposals = getStrikeProposals(chainId);
+  proposals[vaultName] = proposal;
+
+  writeJsonAtomic(strikeProposalsFile(chainId), proposals);
+};
+
+const volChecksFile = (chainId: number) =>
+  path.join(PROGRESS_DIR, `vols-${chainId}.json`);
+
+// When the keeper last set the ManualVolOracle vol of each option ID, or
+// found it within minDeviation of its quotes
+export const getVolChecks = (chainId: number): Record<string, number> => {
+  if (!fs.existsSync(volChecksFile(chainId))) {
+    return {};
+  }
+  return JSON.parse(fs.readFileSync(volChecksFile(chainId), "utf8"));
+};
+
+export const recordVolChecks = (chainId: number, optionIds: string[]) => {
+  const now = Math.floor(Date.now() / 1000);
+  const checks = getVolChecks(chainId);
+  optionIds.forEach((optionId) => {
+    checks[optionId] = now;
+  });
+
+  writeJsonAtomic(volChecksFile(chainId), checks);
+};
@@ -0,0 +1,310 @@
+// retryable: gas, nonce, RPC or timing trouble, sending the step again
+// later can succeed
+// fatal: the vault or keeper config needs fixing first
+export type FailureKind = "retryable" | "fatal";
+
+interface FailureExplanation {
+  explanation: string;
+  fix: string;
+  kind: FailureKind;
+}
+
+export interface KeeperFailure extends FailureExplanation {
+  // Require string or error code the failure was recognised by
+  reason: string;
+}
+
+// Require strings of the vaults, the VaultLifecycle libraries and the
+// GnosisAuction library which the keeper's steps can run into
+export const VAULT_REVERTS: { [reason: string]: FailureExplanation } = {
+  "!keeper": {
+    explanation: "The step was sent from an account which is not the keeper",
+    fix: "Point the keeper role in constants/signers.json at the vault's keeper, or call setNewKeeper",
+    kind: "fatal",
+  },
+  "!ready": {
+    explanation:
+      "rollToNextOption was sent before the vault's commit DELAY was over",
+    fix: "Wait for optionState.nextOptionReadyAt, raise rollDelay in the keeper schedule if it keeps happening",
+    kind: "retryable",
+  },
+  "!nextOption": {
+    explanation: "The vault has no committed option to roll to",
+    fix: "Run commitAndClose, or commitNextOption for swap vaults, first",
+    kind: "fatal",
+  },
+  "Round not closed": {
+    explanation: "commitNextOption was sent while the round was still open",
+    fix: "Run closeRound first",
+    kind: "fatal",
+  },
+  "!strikePrice": {
+    explanation: "The strike price override is 0",
+    fix: "Call setStrikePrice with a non-zero strike",
+    kind: "fatal",
+  },
+  "Expiry before delay": {
+    explanation:
+      "The option committed to expires before the vault's commit DELAY is over",
+    fix: "Check the vault's DELAY and the expiry the vault commits to",
+    kind: "fatal",
+  },
+  "Type mismatch": {
+    explanation:
+      "The oToken is a put where the vault sells calls, or the reverse",
+    fix: "Check isPut in the vault params against the oToken",
+    kind: "fatal",
+  },
+  "strikeAsset != USDC": {
+    explanation: "The oToken is not struck in USDC",
+    fix: "Check the vault's USDC against the oToken's strike asset",
+    kind: "fatal",
+  },
+  "!otokenAddress": {
+    explanation: "The OtokenFactory returned no oToken",
+    fix: "Whitelist the vault's product in the Gamma Whitelist",
+    kind: "fatal",
+  },
+  "!optionPremium": {
+    explanation: "The premium pricer quoted a premium of 0",
+    fix: "Check the vol oracle's vol for the pool and the pricer's price feeds",
+    kind: "fatal",
+  },
+  "!adjustedPremium": {
+    explanation:
+      "The premium converted to the yearn or wstETH collateral rounds to 0",
+    fix: "Check the vol oracle's vol for the pool and the pricer's price feeds",
+    kind: "fatal",
+  },
+  "!premium": {
+    explanation: "The treasury vault's premium pricer quoted a premium of 0",
+    fix: "Check the vol oracle's vol for the pool and the pricer's price feeds",
+    kind: "fatal",
+  },
+  "!currentOtokenPremium": {
+    explanation: "The min price of the option being sold is 0",
+    fix: "Call setMinPrice, or check the premium pricer",
+    kind: "fatal",
+  },
+  "!minPrice": {
+    explanation: "setMinPrice was sent with a price of 0",
+    fix: "Check the floor in the keeper's min price config",
+    kind: "fatal",
+  },
+  "No otokens to sell": {
+    explanation: "The vault minted no oTokens to auction this round",
+    fix: "Check the vault's locked amount, there may be nothing to sell",
+    kind: "fatal",
+  },
+  "No short": {
+    explanation: "The vault has no short position to settle or burn",
+    fix: "Check the vault's current option, the round may have nothing open",
+    kind: "fatal",
+  },
+  "No oTokens to burn": {
+    explanation: "Every oToken of the round was sold",
+    fix: "Nothing to do, burnRemainingOTokens can be skipped",
+    kind: "fatal",
+  },
+  "no premium to distribute": {
+    explanation: "The treasury vault holds no premium to pay out",
+    fix: "Run concludeOptionsSale first, or skip the distribution",
+    kind: "fatal",
+  },
+};
+
+// Require strings of the contracts the vaults call into on the keeper's steps
+export const EXTERNAL_REVERTS: { [reason: string]: FailureExplanation } = {
+  "!sSQRT": {
+    explanation: "The vol oracle has no annualized vol for the option's pool",
+    fix: "Call setAnnualizedVol on the ManualVolOracle, or commit the VolOracle for long enough",
+    kind: "fatal",
+  },
+  "Invalid strikePrice": {
+    explanation: "The strike selection picked a strike the pricer rejects",
+    fix: "Check the strike selection's delta and step, or call setStrikePrice",
+    kind: "fatal",
+  },
+  "Premium below threshold": {
+    explanation: "The premium of the option is too low to sell",
+    fix: "Check the vol oracle and the strike selection's delta",
+    kind: "fatal",
+  },
+  "Auction not in solution submission phase": {
+    explanation: "The auction was settled before its end",
+    fix: "Wait for the auction end, raise settleBuffer in the keeper schedule if it keeps happening",
+    kind: "retryable",
+  },
+  "tokens cannot be auctioned for free": {
+    explanation: "The auction's min price rounds to 0",
+    fix: "Call setMinPrice with a higher price",
+    kind: "fatal",
+  },
+  "cannot auction zero tokens": {
+    explanation: "The vault minted no oTokens to auction this round",
+    fix: "Check the vault's locked amount, there may be nothing to sell",
+    kind: "fatal",
+  },
+  "Ownable: caller is not the owner": {
+    explanation:
+      "An owner call, such as setStrikePrice on a ManualStrikeSelection, was sent by an account not owning the contract",
+    fix: "Configure the owner signer, transfer ownership of the contract to the keeper, or set the strike by hand",
+    kind: "fatal",
+  },
+  "Offer does not exist": {
+    explanation: "The vault has no offer in the Swap contract",
+    fix: "Check the vault's optionAuctionID against the Swap contract",
+    kind: "fatal",
+  },
+  "Offer fully settled": {
+    explanation: "The vault's offer was settled already",
+    fix: "Nothing to do, settleOffer can be skipped",
+    kind: "fatal",
+  },
+};
+
+// Failures other than reverts, by ethers error code
+const NODE_ERRORS: { [code: string]: FailureExplanation } = {
+  NONCE_EXPIRED: {
+    explanation: "The nonce was used already, usually by another sender",
+    fix: "Nothing, the keeper resyncs its nonce on the next send",
+    kind: "retryable",
+  },
+  REPLACEMENT_UNDERPRICED: {
+    explanation: "A transaction with the same nonce and higher fees is pending",
+    fix: "Wait for the pending transaction",
+    kind: "retryable",
+  },
+  INSUFFICIENT_FUNDS: {
+    explanation: "The keeper cannot pay for the gas",
+    fix: "Top up the keeper, or set KEEPER_FUNDING_KEY to have it topped up",
+    kind: "fatal",
+  },
+  NETWORK_ERROR: {
+    explanation: "The RPC could not be reached",
+    fix: "Check the network's RPC url",
+    kind: "retryable",
+  },
+  SERVER_ERROR: {
+    explanation: "The RPC failed to answer",
+    fix: "Check the network's RPC url",
+    kind: "retryable",
+  },
+  TIMEOUT: {
+    explanation: "The RPC timed out",
+    fix: "Check the network's RPC url",
+    kind: "retryable",
+  },
+  // Not an ethers code, nodes only report it in the message
+  FEE_CAP: {
+    explanation: "The base fee rose above the keeper's fee cap",
+    fix: "Raise maxFeeGwei for the network, or KEEPER_MAX_FEE_GWEI, if it keeps happening",
+    kind: "retryable",
+  },
+  // Not ethers codes, raised by the keeper's transaction manager
+  NONCE_TAKEN: {
+    explanation:
+      "Another transaction of the keeper's account was mined under the step's nonce",
+    fix: "Nothing, the keeper resyncs its nonce on the next send",
+    kind: "retryable",
+  },
+  NOT_MINED: {
+    explanation: "The step stayed pending for longer than KEEPER_WAIT_TIMEOUT",
+    fix: "Raise maxFeeGwei for the network, or KEEPER_MAX_FEE_GWEI, if it keeps happening",
+    kind: "retryable",
+  },
+};
+
+// Node and transaction manager messages of the failures above, for errors
+// without an ethers code
+const NODE_MESSAGES: [RegExp, string][] = [
+  [/nonce (?:is )?too low|nonce has already been used/i, "NONCE_EXPIRED"],
+  [/replacement transaction underpriced/i, "REPLACEMENT_UNDERPRICED"],
+  [/insufficient funds/i, "INSUFFICIENT_FUNDS"],
+  [/max fee per gas less than block base fee/i, "FEE_CAP"],
+  [/nonce \d+ was mined by another transaction/i, "NONCE_TAKEN"],
+  [/not mined after \d+ minutes/i, "NOT_MINED"],
+];
+
+// What precedes the reason as reported by hardhat, by nodes through
+// ethers and by the keeper's transaction manager
+const REVERT_PREFIXES = [
+  "reverted with reason string '",
+  "execution reverted: ",
+  "reverted: ",
+];
+
+// ethers nests the node's error under `error`, sometimes twice
+const getMessages = (
+  error: any // eslint-disable-line @typescript-eslint/no-explicit-any
+): string[] =>
+  error
+    ? [error.reason, error.message, ...getMessages(error.error)].filter(
+        (message) => typeof message === "string"
+      )
+    : [];
+
+/**
+ * Require string a failed call or transaction reverted with
+ * @return null when the error is not a revert with a reason
+ */
+export const getRevertReason = (
+  error: any // eslint-disable-line @typescript-eslint/no-explicit-any
+): string | null => {
+  for (const message of getMessages(error)) {
+    if (VAULT_REVERTS[message] || EXTERNAL_REVERTS[message]) {
+      return message;
+    }
+    for (const prefix of REVERT_PREFIXES) {
+      const start = message.indexOf(prefix);
+      if (start !== -1) {
+        // Up to the quote or the line closing it
+        return message
+          .slice(start + prefix.length)
+          .split(/['"\n]/)[0]
+          .trim();
+      }
+    }
+  }
+  return null;
+};
+
+/**
+ * Explains why a keeper step failed, what to do about it and whether
+ * sending it again can help. Failures the decoder does not know are fatal.
+ */
+export const decodeFailure = (
+  error: any // eslint-disable-line @typescript-eslint/no-explicit-any
+): KeeperFailure => {
+  const reason = getRevertReason(error);
+  if (reason !== null) {
+    const known = VAULT_REVERTS[reason] || EXTERNAL_REVERTS[reason];
+    return known
+      ? { reason, ...known }
+      : {
+          reason,
+          explanation: "Reverted with a reason the keeper does not know",
+          fix: "Look the reason up in the contract sources",
+          kind: "fatal",
+        };
+  }
+
+  const messages = getMessages(error).join("\n");
+  const code =
+    error && NODE_ERRORS[error.code]
+      ? error.code
+      : (NODE_MESSAGES.find(([pattern]) => pattern.test(messages)) || [])[1];
+  if (code) {
+    return { reason: code, ...NODE_ERRORS[code] };
+  }
+
+  return {
+    reason: String(error && error.message ? error.message : error),
+    explanation: "Failed with an error the keeper does not know",
+    fix: "Check the keeper logs",
+    kind: "fatal",
+  };
+};
+
+export const formatFailure = (failure: KeeperFailure) =>
+  `${failure.reason} (${failure.kind}): ${failure.explanation}. Fix: ${failure.fix}`;
@@ -0,0 +1,175 @@
+import * as fs from "fs";
+import { BigNumber, Contract, ethers } from "ethers";
+import { Provider } from "@ethersproject/providers";
+import { findExpiryRoundId } from "./expiryPrices";
+import defaultConfig from "../../constants/keeper-roll-guard.json";
+
+require("dotenv").config();
+
+const { formatUnits } = ethers.utils;
+
+interface RollGuardSettings {
+  // Smallest distance from the price to the strike, in percent of the price
+  minDistance: number;
+  // Largest move of the price since the commit, in percent
+  maxMove: number;
+}
+
+export interface RollGuardConfig {
+  default: RollGuardSettings;
+  vaults: { [vaultName: string]: Partial<RollGuardSettings> };
+}
+
+export interface RollCheck {
+  isPut: boolean;
+  // Strike of the committed oToken, in USD
+  strike: number;
+  // Chainlink price of the underlying now and at the commit, in USD
+  price: number;
+  commitPrice: number;
+  // Move the price needs to reach the strike in percent, negative once
+  // the option is in the money
+  distance: number;
+  // Move of the price since the commit in percent
+  move: number;
+}
+
+const rollGuardInterface = new ethers.utils.Interface([
+  "function strikePrice() view returns (uint256)",
+  "function isPut() view returns (bool)",
+  "function DELAY() view returns (uint256)",
+  "function decimals() view returns (uint8)",
+  "function latestRound() view returns (uint256)",
+  "function getTimestamp(uint256 roundId) view returns (uint256)",
+  "function getAnswer(uint256 roundId) view returns (int256)",
+]);
+
+/**
+ * Reads the roll guard config from KEEPER_ROLL_GUARD when set,
+ * constants/keeper-roll-guard.json otherwise
+ */
+export const loadRollGuardConfig = (): RollGuardConfig =>
+  process.env.KEEPER_ROLL_GUARD
+    ? JSON.parse(fs.readFileSync(process.env.KEEPER_ROLL_GUARD, "utf8"))
+    : (defaultConfig as RollGuardConfig);
+
+export const getRollGuardSettings = (
+  config: RollGuardConfig,
+  vaultName: string
+): RollGuardSettings => ({ ...config.default, ...config.vaults[vaultName] });
+
+export const getRollCheck = (
+  isPut: boolean,
+  strike: number,
+  price: number,
+  commitPrice: number
+): RollCheck => ({
+  isPut,
+  strike,
+  price,
+  commitPrice,
+  distance: ((isPut ? price - strike : strike - price) / price) * 100,
+  move: ((price - commitPrice) / commitPrice) * 100,
+});
+
+/**
+ * Latest answer of a Chainlink USD feed
+ */
+export async function getChainlinkPrice(provider: Provider, feed: string) {
+  const aggregator = new Contract(feed, rollGuardInterface, provider);
+  return Number(
+    formatUnits(
+      await aggregator.getAnswer(await aggregator.latestRound()),
+      await aggregator.decimals()
+    )
+  );
+}
+
+/**
+ * Compares the strike of the option a vault committed to with the
+ * Chainlink price of its underlying, now and when the vault committed
+ * @param oToken is the vault's next option
+ * @param feed is the Chainlink USD feed of the vault's underlying
+ */
+export async function readRollCheck(
+  provider: Provider,
+  vault: Contract,
+  oToken: string,
+  feed: string
+): Promise<RollCheck> {
+  const otoken = new Contract(oToken, rollGuardInterface, provider);
+  const aggregator = new Contract(feed, rollGuardInterface, provider);
+  const decimals = await aggregator.decimals();
+  const toUSD = (answer: BigNumber) => Number(formatUnits(answer, decimals));
+
+  // The vault is ready to roll DELAY after it committed
+  const committedAt =
+    (await vault.optionState()).nextOptionReadyAt -
+    (
+      await new Contract(vault.address, rollGuardInterface, provider).DELAY()
+    ).toNumber();
+
+  const price = await getChainlinkPrice(provider, feed);
+  // The price at the commit is the last round reported before it, the
+  // latest when none was reported since
+  const roundId = await findExpiryRoundId(aggregator, committedAt);
+  const commitPrice = roundId
+    ? toUSD(await aggregator.getAnswer(roundId.sub(1)))
+    : price;
+
+  return getRollCheck(
+    await otoken.isPut(),
+    Number(formatUnits(await otoken.strikePrice(), 8)),
+    price,
+    commitPrice
+  );
+}
+
+/**
+ * Reasons to hold the roll, none when the option is still far enough out
+ * of the money and the price did not move too much since the commit
+ */
+export const getRollGuardErrors = (
+  check: RollCheck,
+  settings: RollGuardSettings
+) => {
+  const errors: string[] = [];
+
+  if (check.distance < 0) {
+    errors.push(
+      `strike ${check.strike} is ${(-check.distance).toFixed(
+        2
+      )}% in the money at ${check.price}`
+    );
+  } else if (check.distance < settings.minDistance) {
+    errors.push(
+      `strike ${check.strike} is ${check.distance.toFixed(
+        2
+      )}% from the money at ${check.price}`
+    );
+  }
+
+  if (Math.abs(check.move) > settings.maxMove) {
+    errors.push(
+      `price moved ${check.move.toFixed(2)}% since the commit at ${
+        check.commitPrice
+      }`
+    );
+  }
+
+  return errors;
+};
+
+/**
+ * Strike as far out of the money at the current price as the committed
+ * one was at the commit, rounded away from the money to 3 significant
+ * digits
+ */
+export const getSuggestedStrike = (check: RollCheck) => {
+  const strike = (check.strike * check.price) / check.commitPrice;
+  const unit = 10 ** (Math.floor(Math.log10(strike)) - 2);
+  const rounded = check.isPut
+    ? Math.floor(strike / unit) * unit
+    : Math.ceil(strike / unit) * unit;
+  return Number(rounded.toFixed(8));
+};
@@ -0,0 +1,197 @@
+import * as fs from "fs";
+import { getDayOfWeek } from "../helpers/calendar";
+import defaultConfig from "../../constants/keeper-schedule.json";
+
+require("dotenv").config();
+
+const MINUTES_PER_DAY = 24 * 60;
+const MINUTES_PER_WEEK = 7 * MINUTES_PER_DAY;
+const WEEKDAYS = ["Mon", "Tue", "Wed", "Thu", "Fri", "Sat", "Sun"];
+
+// Offsets are in minutes
+export interface VaultSchedule {
+  // 1 = Monday to 7 = Sunday, as in helpers/calendar, and the UTC hour the
+  // vault's options expire at
+  expiryWeekday: number;
+  expiryHour: number;
+  // From the expiry to commitAndClose, or closeRound / commitNextOption
+  commitOffset: number;
+  // From the commit to rollToNextOption, at least the vault's commit DELAY
+  rollDelay: number;
+  // From strike forecasting and the vol update to the commit
+  forecastLead: number;
+  // From the end of the auction to its settlement
+  settleBuffer: number;
+  // How long swap vaults collect bids, auctions last the vault's auctionDuration
+  offerDuration: number;
+}
+
+export interface ScheduleConfig {
+  // Period of the VolOracle commits, in hours
+  volPeriodHours: number;
+  default: VaultSchedule;
+  vaults: { [vaultName: string]: Partial<VaultSchedule> };
+}
+
+// Minutes into the UTC week, 0 being Monday 00:00
+export type WeekMinute = number;
+
+export interface VaultTimes {
+  expiry: WeekMinute;
+  forecast: WeekMinute;
+  commit: WeekMinute;
+  roll: WeekMinute;
+  settle: WeekMinute;
+}
+
+/**
+ * Reads the keeper schedule from KEEPER_SCHEDULE when set,
+ * constants/keeper-schedule.json otherwise
+ */
+export const loadScheduleConfig = (): ScheduleConfig =>
+  process.env.KEEPER_SCHEDULE
+    ? JSON.parse(fs.readFileSync(process.env.KEEPER_SCHEDULE, "utf8"))
+    : (defaultConfig as ScheduleConfig);
+
+export const getVaultSchedule = (
+  config: ScheduleConfig,
+  vaultName: string
+): VaultSchedule => ({ ...config.default, ...config.vaults[vaultName] });
+
+const isInRange = (value: number, min: number, max: number) =>
+  Number.isInteger(value) && value >= min && value <= max;
+
+/**
+ * Mistakes in the schedule, checked before any job is scheduled
+ * @param vaultNames is every vault the keeper runs
+ */
+export const getScheduleErrors = (
+  config: ScheduleConfig,
+  vaultNames: string[]
+) => {
+  const errors: string[] = [];
+
+  if (!isInRange(config.volPeriodHours, 1, 24)) {
+    errors.push(`volPeriodHours ${config.volPeriodHours} is not 1 to 24`);
+  }
+
+  for (const vaultName of Object.keys(config.vaults)) {
+    if (!vaultNames.includes(vaultName)) {
+      errors.push(`${vaultName} is not a keeper vault`);
+    }
+  }
+
+  for (const vaultName of vaultNames) {
+    const schedule = getVaultSchedule(config, vaultName);
+
+    if (!isInRange(schedule.expiryWeekday, 1, 7)) {
+      errors.push(
+        `${vaultName}: expiryWeekday ${schedule.expiryWeekday} is not 1 to 7`
+      );
+    }
+    if (!isInRange(schedule.expiryHour, 0, 23)) {
+      errors.push(
+        `${vaultName}: expiryHour ${schedule.expiryHour} is not 0 to 23`
+      );
+    }
+    for (const offset of [
+      "commitOffset",
+      "rollDelay",
+      "forecastLead",
+      "settleBuffer",
+      "offerDuration",
+    ] as const) {
+      if (!isInRange(schedule[offset], 0, MINUTES_PER_WEEK)) {
+        errors.push(`${vaultName}: ${offset} ${schedule[offset]} is invalid`);
+      }
+    }
+  }
+
+  return errors;
+};
+
+export const addMinutes = (time: WeekMinute, minutes: number) =>
+  (((time + minutes) % MINUTES_PER_WEEK) + MINUTES_PER_WEEK) % MINUTES_PER_WEEK;
+
+/**
+ * When each keeper step runs for the vault
+ * @param saleDuration is how long the vault's auction or offer lasts, in seconds
+ */
+export const getVaultTimes = (
+  schedule: VaultSchedule,
+  saleDuration: number
+): VaultTimes => {
+  const expiry =
+    (schedule.expiryWeekday - 1) * MINUTES_PER_DAY + schedule.expiryHour * 60;
+  const commit = addMinutes(expiry, schedule.commitOffset);
+  const roll = addMinutes(commit, schedule.rollDelay);
+
+  return {
+    expiry,
+    forecast: addMinutes(commit, -schedule.forecastLead),
+    commit,
+    roll,
+    settle: addMinutes(
+      roll,
+      Math.ceil(saleDuration / 60) + schedule.settleBuffer
+    ),
+  };
+};
+
+/**
+ * Cron time of a week minute, for cron jobs in UTC
+ */
+export const toCronTime = (time: WeekMinute) => {
+  const day = Math.floor(time / MINUTES_PER_DAY);
+  const hour = Math.floor((time % MINUTES_PER_DAY) / 60);
+  // cron counts weekdays from Sunday = 0
+  return `0 ${time % 60} ${hour} * * ${(day + 1) % 7}`;
+};
+
+export const formatWeekMinute = (time: WeekMinute) => {
+  const hour = Math.floor((time % MINUTES_PER_DAY) / 60);
+  const minute = time % 60;
+  return `${WEEKDAYS[Math.floor(time / MINUTES_PER_DAY)]} ${hour
+    .toString()
+    .padStart(2, "0")}:${minute.toString().padStart(2, "0")} UTC`;
+};
+
+/**
+ * Whether a timestamp falls on the weekday and hour of the schedule,
+ * used to check the schedule against the expiry of the vault's options
+ */
+export const isScheduledExpiry = (schedule: VaultSchedule, timestamp: number) =>
+  getDayOfWeek(timestamp) === schedule.expiryWeekday &&
+  Math.floor((timestamp % (MINUTES_PER_DAY * 60)) / 3600) ===
+    schedule.expiryHour;
+
+/**
+ * Latest timestamp at or before the given one falling on the week minute,
+ * e.g. the expiry a job scheduled from it is running for
+ */
+export const getLastWeekMinute = (time: WeekMinute, timestamp: number) => {
+  const weekStart =
+    timestamp -
+    (timestamp % (MINUTES_PER_DAY * 60)) -
+    (getDayOfWeek(timestamp) - 1) * MINUTES_PER_DAY * 60;
+  const at = weekStart + time * 60;
+  return at > timestamp ? at - MINUTES_PER_WEEK * 60 : at;
+};
+
+/**
+ * Vaults grouped by the week minute one of their steps runs at, so each
+ * time gets a single cron job
+ */
+export const groupByTime = (
+  times: { [vaultName: string]: VaultTimes },
+  step: keyof VaultTimes
+) => {
+  const groups = new Map<WeekMinute, string[]>();
+  for (const [vaultName, vaultTimes] of Object.entries(times)) {
+    groups.set(vaultTimes[step], [
+      ...(groups.get(vaultTimes[step]) || []),
+      vaultName,
+    ]);
+  }
+  return groups;
+};
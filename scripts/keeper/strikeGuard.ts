@@ -0,0 +1,354 @@
+import * as fs from "fs";
+import { Contract, ethers } from "ethers";
+import got from "got";
+import { FetchJson } from "./volatility";
+import defaultConfig from "../../constants/keeper-strike-guard.json";
+
+require("dotenv").config();
+
+const HOUR = 3600;
+// Deribit lists options expiring at 8am UTC, like the vaults
+const EXPIRY_MARGIN = 3 * HOUR;
+// Currencies Deribit lists options on
+const DERIBIT_CURRENCIES = ["BTC", "ETH"];
+
+interface StrikeGuardSettings {
+  // Largest distance from the reference strike, in percent of it
+  strikeTolerance: number;
+  // Largest distance between the selection's delta and the market delta
+  // of the vault strike, as a fraction
+  deltaTolerance: number;
+  // Refuses the commit when the provider has no quotes for the option
+  requireReference: boolean;
+}
+
+export interface StrikeGuardConfig {
+  // "deribit", or "fixture" to read quotes from the `fixtures` file
+  provider: string;
+  fixtures?: string;
+  default: StrikeGuardSettings;
+  vaults: { [vaultName: string]: Partial<StrikeGuardSettings> };
+}
+
+export interface StrikeQuote {
+  strike: number;
+  // Delta of the option as a fraction, positive for puts as well
+  delta: number;
+}
+
+export interface MarketQuotes {
+  spot: number;
+  // Out of the money options of the expiry
+  strikes: StrikeQuote[];
+}
+
+export interface MarketDataProvider {
+  name: string;
+  // null when the provider lists no options on the underlying for the expiry
+  getQuotes: (
+    underlying: string, // eslint-disable-line no-unused-vars
+    isPut: boolean, // eslint-disable-line no-unused-vars
+    expiry: number // eslint-disable-line no-unused-vars
+  ) => Promise<MarketQuotes | null>;
+}
+
+// delta: DeltaStrikeSelection, the strike closest to a target delta
+// percent: PercentStrikeSelection, the spot price times a multiplier
+// manual: ManualStrikeSelection, a strike set by the owner
+export type StrikeSelectionKind = "delta" | "percent" | "manual";
+
+export interface VaultStrike {
+  kind: StrikeSelectionKind;
+  // Strike the vault commits to, in USD
+  strike: number;
+  // Delta the selection aims for, null for percent selections
+  delta: number | null;
+  // Multiple of the spot price percent selections strike at
+  multiplier: number | null;
+}
+
+export interface StrikeReference {
+  // Strike the market points to for the vault's selection
+  strike: number;
+  // Market delta of the vault strike, null outside the quoted strikes
+  delta: number | null;
+}
+
+const strikeSelectionProbe = new ethers.utils.Interface([
+  "function strikeMultiplier() view returns (uint256)",
+  "function step() view returns (uint256)",
+  "function delta() view returns (uint256)",
+]);
+
+const strikeOverrideProbe = new ethers.utils.Interface([
+  "function lastStrikeOverrideRound() view returns (uint16)",
+  "function overriddenStrikePrice() view returns (uint256)",
+  "function vaultState() view returns (uint16 round, uint104 lockedAmount, uint104 lastLockedAmount, uint128 totalPending, uint128 queuedWithdrawShares)",
+]);
+
+/**
+ * Reads the strike guard config from KEEPER_STRIKE_GUARD when set,
+ * constants/keeper-strike-guard.json otherwise
+ */
+export const loadStrikeGuardConfig = (): StrikeGuardConfig =>
+  process.env.KEEPER_STRIKE_GUARD
+    ? JSON.parse(fs.readFileSync(process.env.KEEPER_STRIKE_GUARD, "utf8"))
+    : (defaultConfig as StrikeGuardConfig);
+
+export const getStrikeGuardSettings = (
+  config: StrikeGuardConfig,
+  vaultName: string
+): StrikeGuardSettings => ({ ...config.default, ...config.vaults[vaultName] });
+
+const fetchJson: FetchJson = async (url) => JSON.parse((await got(url)).body);
+
+/**
+ * Marks and greeks of the options Deribit lists for the expiry
+ */
+export const createDeribitProvider = (
+  getJson: FetchJson = fetchJson
+): MarketDataProvider => ({
+  name: "deribit",
+  getQuotes: async (underlying, isPut, expiry) => {
+    if (!DERIBIT_CURRENCIES.includes(underlying)) {
+      return null;
+    }
+
+    // https://docs.deribit.com/?javascript#public-get_index_price
+    const spot: number = (
+      await getJson(
+        `https://www.deribit.com/api/v2/public/get_index_price?index_name=${underlying.toLowerCase()}_usd`
+      )
+    ).result.index_price;
+
+    // https://docs.deribit.com/?shell#public-get_instruments
+    const instruments = (
+      await getJson(
+        `https://www.deribit.com/api/v2/public/get_instruments?currency=${underlying}&expired=false&kind=option`
+      )
+    ).result.filter(
+      // eslint-disable-next-line camelcase
+      ({ option_type, expiration_timestamp, strike }) =>
+        isPut === (option_type === "put") &&
+        Math.abs(expiry * 1000 - expiration_timestamp) < EXPIRY_MARGIN * 1000 &&
+        (isPut ? strike < spot : strike > spot)
+    );
+    if (instruments.length === 0) {
+      return null;
+    }
+
+    const strikes: StrikeQuote[] = [];
+    for (const instrument of instruments) {
+      // https://docs.deribit.com/?javascript#public-get_order_book
+      const book = await getJson(
+        `https://www.deribit.com/api/v2/public/get_order_book?depth=1&instrument_name=${instrument.instrument_name}`
+      );
+      strikes.push({
+        strike: instrument.strike,
+        delta: Math.abs(book.result.greeks.delta),
+      });
+    }
+    return { spot, strikes };
+  },
+});
+
+/**
+ * Quotes read from a file instead of a market, keyed by underlying and
+ * option type, e.g. "ETH-call", whatever the expiry
+ */
+export const createFixtureProvider = (fixtures: {
+  [option: string]: MarketQuotes;
+}): MarketDataProvider => ({
+  name: "fixture",
+  getQuotes: async (underlying, isPut) =>
+    fixtures[`${underlying}-${isPut ? "put" : "call"}`] || null,
+});
+
+export const createMarketDataProvider = (config: StrikeGuardConfig) => {
+  switch (config.provider) {
+    case "deribit":
+      return createDeribitProvider();
+    case "fixture":
+      return createFixtureProvider(
+        JSON.parse(fs.readFileSync(config.fixtures, "utf8"))
+      );
+    default:
+      throw new Error(`Unknown market data provider ${config.provider}`);
+  }
+};
+
+const tryCall = async (contract: Contract, functionName: string) => {
+  try {
+    return await contract[functionName]();
+  } catch (error) {
+    return null;
+  }
+};
+
+/**
+ * Strike the vault would commit to now and what its strike selection
+ * aims for. A strike the owner set with setStrikePrice for the round
+ * replaces the selection's, as on commit.
+ * @param strikeSelection is the vault's strike selection contract
+ * @param expiry is the expiry of the option the vault commits to next
+ */
+export async function getVaultStrike(
+  vault: Contract,
+  strikeSelection: Contract,
+  expiry: number,
+  isPut: boolean
+): Promise<VaultStrike> {
+  const probe = new Contract(
+    strikeSelection.address,
+    strikeSelectionProbe,
+    strikeSelection.provider
+  );
+  const strikeMultiplier = await tryCall(probe, "strikeMultiplier");
+  let kind: StrikeSelectionKind = "manual";
+  if (strikeMultiplier) {
+    kind = "percent";
+  } else if (await tryCall(probe, "step")) {
+    kind = "delta";
+  }
+
+  let [strike] = await strikeSelection.getStrikePrice(expiry, isPut);
+
+  const overrides = new Contract(
+    vault.address,
+    strikeOverrideProbe,
+    vault.provider
+  );
+  const lastStrikeOverrideRound = await tryCall(
+    overrides,
+    "lastStrikeOverrideRound"
+  );
+  if (
+    lastStrikeOverrideRound !== null &&
+    lastStrikeOverrideRound === (await overrides.vaultState()).round
+  ) {
+    strike = await overrides.overriddenStrikePrice();
+  }
+
+  return {
+    kind,
+    strike: Number(ethers.utils.formatUnits(strike, 8)),
+    delta: kind === "percent" ? null : (await probe.delta()).toNumber() / 10000,
+    multiplier: strikeMultiplier ? strikeMultiplier.toNumber() / 100 : null,
+  };
+}
+
+/**
+ * Market delta at the strike, interpolated between the quoted strikes
+ * @return null outside the quoted strikes
+ */
+export const getDeltaAt = (strikes: StrikeQuote[], strike: number) => {
+  const sorted = [...strikes].sort((a, b) => a.strike - b.strike);
+
+  for (let i = 0; i < sorted.length; i++) {
+    if (sorted[i].strike === strike) {
+      return sorted[i].delta;
+    }
+    if (i > 0 && sorted[i - 1].strike < strike && strike < sorted[i].strike) {
+      const weight =
+        (strike - sorted[i - 1].strike) /
+        (sorted[i].strike - sorted[i - 1].strike);
+      return (
+        sorted[i - 1].delta + weight * (sorted[i].delta - sorted[i - 1].delta)
+      );
+    }
+  }
+  return null;
+};
+
+/**
+ * Strike the market points to for the vault's selection: the quoted
+ * strike closest to the target delta, or the spot price times the
+ * multiplier of percent selections
+ * @return null when no strike is quoted
+ */
+export const getStrikeReference = (
+  vaultStrike: VaultStrike,
+  quotes: MarketQuotes
+): StrikeReference | null => {
+  if (quotes.strikes.length === 0) {
+    return null;
+  }
+
+  const delta = getDeltaAt(quotes.strikes, vaultStrike.strike);
+
+  if (vaultStrike.kind === "percent") {
+    return { strike: quotes.spot * vaultStrike.multiplier, delta };
+  }
+
+  const closest = quotes.strikes.reduce((best, quote) =>
+    Math.abs(quote.delta - vaultStrike.delta) <
+    Math.abs(best.delta - vaultStrike.delta)
+      ? quote
+      : best
+  );
+  return { strike: closest.strike, delta };
+};
+
+/**
+ * Reasons to refuse the commit, none when the vault strike is within the
+ * tolerances of the reference
+ */
+export const getStrikeGuardErrors = (
+  vaultStrike: VaultStrike,
+  reference: StrikeReference,
+  settings: StrikeGuardSettings
+) => {
+  const errors: string[] = [];
+
+  const strikeDeviation =
+    (Math.abs(vaultStrike.strike - reference.strike) / reference.strike) * 100;
+  if (strikeDeviation > settings.strikeTolerance) {
+    errors.push(
+      `strike ${vaultStrike.strike} is ${strikeDeviation.toFixed(
+        2
+      )}% off the reference strike ${reference.strike}`
+    );
+  }
+
+  if (vaultStrike.delta !== null && reference.delta !== null) {
+    const deltaDeviation = Math.abs(vaultStrike.delta - reference.delta);
+    if (deltaDeviation > settings.deltaTolerance) {
+      errors.push(
+        `market delta of the strike ${reference.delta.toFixed(
+          4
+        )} is ${deltaDeviation.toFixed(4)} off the target delta ${
+          vaultStrike.delta
+        }`
+      );
+    }
+  }
+
+  return errors;
+};
+
+/**
+ * Checks the vault strike against the provider's quotes for the option
+ * @param asset is the underlying as the provider quotes it, e.g. ETH
+ * @return the reasons to refuse the commit, null when there is no quote to
+ * check against and the vault does not require one
+ */
+export async function checkVaultStrike(
+  marketData: MarketDataProvider,
+  vaultStrike: VaultStrike,
+  asset: string,
+  isPut: boolean,
+  expiry: number,
+  settings: StrikeGuardSettings
+): Promise<string[] | null> {
+  const quotes = await marketData
+    .getQuotes(asset, isPut, expiry)
+    .catch(() => null);
+  const reference = quotes && getStrikeReference(vaultStrike, quotes);
+
+  if (!reference) {
+    return settings.requireReference
+      ? [`no ${marketData.name} quotes for the option`]
+      : null;
+  }
+  return getStrikeGuardErrors(vaultStrike, reference, settings);
+}
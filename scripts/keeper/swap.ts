@@ -0,0 +1,110 @@
+import { BigNumber, BigNumberish, Contract, ethers } from "ethers";
+import got from "got";
+import * as fs from "fs";
+import path from "path";
+
+require("dotenv").config();
+
+const { parseBytes32String } = ethers.utils;
+
+const OTOKEN_DECIMALS = 8;
+
+export interface SignedBid {
+  swapId: BigNumberish;
+  nonce: BigNumberish;
+  signerWallet: string;
+  sellAmount: BigNumberish;
+  buyAmount: BigNumberish;
+  referrer: string;
+  v: number;
+  r: string;
+  s: string;
+}
+
+export interface RejectedBid {
+  bid: SignedBid;
+  errors: string[];
+}
+
+/**
+ * Collects the signed bids market makers submitted for an offer.
+ * Bids are fetched from `${SWAP_BIDS_URL}/${chainId}/${swapId}` when SWAP_BIDS_URL is set,
+ * otherwise they are read from `${SWAP_BIDS_DIR}/${chainId}-${swapId}.json`.
+ */
+export async function gatherBids(
+  chainId: number,
+  swapId: BigNumberish
+): Promise<SignedBid[]> {
+  if (process.env.SWAP_BIDS_URL) {
+    const response = await got(
+      `${process.env.SWAP_BIDS_URL}/${chainId}/${swapId.toString()}`
+    );
+    return JSON.parse(response.body) as SignedBid[];
+  }
+
+  const bidsFile = path.join(
+    process.env.SWAP_BIDS_DIR || "bids",
+    `${chainId}-${swapId.toString()}.json`
+  );
+  if (!fs.existsSync(bidsFile)) {
+    return [];
+  }
+  return JSON.parse(fs.readFileSync(bidsFile, "utf8")) as SignedBid[];
+}
+
+// Price per oToken denominated in the bidding token, as computed by Swap
+export const bidPrice = (bid: SignedBid) =>
+  BigNumber.from(bid.sellAmount)
+    .mul(BigNumber.from(10).pow(OTOKEN_DECIMALS))
+    .div(bid.buyAmount);
+
+const byPriceDescending = (a: SignedBid, b: SignedBid) => {
+  const priceA = bidPrice(a);
+  const priceB = bidPrice(b);
+  if (priceA.eq(priceB)) {
+    return 0;
+  }
+  return priceB.gt(priceA) ? 1 : -1;
+};
+
+/**
+ * Picks the best priced bids that fit in the offer's remaining size.
+ * Bids that fail Swap.check() are returned with their errors instead.
+ */
+export async function selectBids(
+  swap: Contract,
+  swapId: BigNumberish,
+  bids: SignedBid[]
+) {
+  const offer = await swap.swapOffers(swapId);
+  let availableSize = BigNumber.from(offer.availableSize);
+
+  const validBids: SignedBid[] = [];
+  const rejected: RejectedBid[] = [];
+
+  for (const bid of bids) {
+    const [errCount, errors] = await swap.check(bid);
+    if (errCount.isZero()) {
+      validBids.push(bid);
+    } else {
+      rejected.push({
+        bid,
+        errors: errors.slice(0, errCount.toNumber()).map(parseBytes32String),
+      });
+    }
+  }
+
+  const selected: SignedBid[] = [];
+
+  for (const bid of validBids.sort(byPriceDescending)) {
+    // Swap reverts with BID_EXCEED_AVAILABLE_SIZE rather than partially filling a bid
+    if (BigNumber.from(bid.buyAmount).lte(availableSize)) {
+      selected.push(bid);
+      availableSize = availableSize.sub(bid.buyAmount);
+    } else {
+      rejected.push({ bid, errors: ["BID_EXCEED_AVAILABLE_SIZE"] });
+    }
+  }
+
+  return { bids: selected, rejected };
+}
@@ -0,0 +1,245 @@
+import { BigNumber, PopulatedTransaction, Signer, ethers } from "ethers";
+import {
+  TransactionReceipt,
+  TransactionResponse,
+} from "@ethersproject/providers";
+import { Fees, getFeeData } from "../helpers/getGasPrice";
+import { isRelaySigner } from "../helpers/signers";
+import { KeeperNetwork } from "./networks";
+import { incrementCounter } from "./metrics";
+import { recordGasUsed } from "./progress";
+
+require("dotenv").config();
+
+const { formatEther, parseUnits } = ethers.utils;
+
+const GAS_LIMIT_MARGIN = 130; // % of the gas estimate
+const FEE_BUMP = 125; // % of the last fees
+const MIN_REPLACEMENT_BUMP = 110; // % of the last fees nodes replace a transaction at
+const POLL_INTERVAL = 15000; // 15 seconds
+// Time a transaction stays pending before it is sent again with higher fees
+const REBROADCAST_AFTER =
+  Number(process.env.KEEPER_REBROADCAST_AFTER || 180) * 1000;
+// Time wait() gives up after, so a stuck transaction cannot hang a job
+const WAIT_TIMEOUT = Number(process.env.KEEPER_WAIT_TIMEOUT || 1800) * 1000;
+
+export interface SentTransaction {
+  nonce: number;
+  // Hash of the first broadcast, replacements share its nonce
+  hash: string;
+  // Resolves with the receipt of whichever broadcast is mined. Throws on
+  // revert, when another transaction took the nonce, or after WAIT_TIMEOUT
+  wait: () => Promise<TransactionReceipt>;
+}
+
+const sleep = async (ms: number) =>
+  new Promise((resolve) => setTimeout(resolve, ms)); // eslint-disable-line no-promise-executor-return
+
+const minFee = (fee: BigNumber, maxFee: BigNumber) =>
+  fee.gt(maxFee) ? maxFee : fee;
+
+const scaleFees = (fees: Fees, percent: number, maxFee: BigNumber): Fees => {
+  const scaled: Fees = {};
+  for (const [key, fee] of Object.entries(fees)) {
+    if (fee) {
+      scaled[key] = minFee(BigNumber.from(fee).mul(percent).div(100), maxFee);
+    }
+  }
+  // Nodes reject a priority fee above the max fee
+  if (scaled.maxFeePerGas && scaled.maxPriorityFeePerGas) {
+    scaled.maxPriorityFeePerGas = minFee(
+      BigNumber.from(scaled.maxPriorityFeePerGas),
+      BigNumber.from(scaled.maxFeePerGas)
+    );
+  }
+  return scaled;
+};
+
+const recordReceipt = (
+  chainId: number,
+  receipt: TransactionReceipt,
+  recordsGas: boolean
+) => {
+  if (recordsGas) {
+    recordGasUsed(chainId, receipt.gasUsed.toString());
+  }
+  incrementCounter("keeper_transactions_total", {
+    result: receipt.status === 0 ? "reverted" : "success",
+  });
+  incrementCounter(
+    "keeper_gas_spent_total",
+    {},
+    Number(formatEther(receipt.gasUsed.mul(receipt.effectiveGasPrice)))
+  );
+};
+
+// Once the cap holds the fees back, nodes would reject the replacement
+const canReplace = (fees: Fees, bumpedFees: Fees) =>
+  Object.keys(fees).every((key) =>
+    BigNumber.from(bumpedFees[key]).gte(
+      BigNumber.from(fees[key]).mul(MIN_REPLACEMENT_BUMP).div(100)
+    )
+  );
+
+/**
+ * Sends every keeper transaction of a signer. Nonces are assigned locally so
+ * sends do not wait on each other, gas limits come from an estimate with a
+ * margin, and a transaction left pending is sent again under the same nonce
+ * with higher fees, never above the network's `maxFeeGwei`, until the cap
+ * leaves no room for a replacement. KEEPER_MAX_FEE_GWEI overrides the cap. A Defender relayer keeps setting
+ * its own nonces and fees, and replaces its transactions itself.
+ * @param recordsGas adds the gas of mined transactions to the gas history
+ * the keeper's balance forecast reads, for the keeper's own account only
+ */
+export const createTxManager = (
+  signer: Signer,
+  keeperNetwork: KeeperNetwork,
+  recordsGas = false
+) => {
+  const isRelayed = isRelaySigner(signer);
+  const maxFee = parseUnits(
+    process.env.KEEPER_MAX_FEE_GWEI || keeperNetwork.maxFeeGwei.toString(),
+    "gwei"
+  );
+  let localNonce = 0;
+
+  // The pending count takes over whenever another sender used the account
+  const nextNonce = async () => {
+    localNonce = Math.max(
+      localNonce,
+      await signer.getTransactionCount("pending")
+    );
+    return localNonce++;
+  };
+
+  // Replayed on the state before the block the transaction was mined in
+  const getRevertReason = async (
+    tx: PopulatedTransaction,
+    blockNumber: number
+  ) => {
+    try {
+      await signer.call(tx, blockNumber - 1);
+      return "unknown reason";
+    } catch (error) {
+      return error.reason || error.message;
+    }
+  };
+
+  const getReceipt = async (response: TransactionResponse) => {
+    if (!isRelayed) {
+      return signer.provider.getTransactionReceipt(response.hash);
+    }
+    // The relayer's response waits through the replacements it sends
+    try {
+      return await response.wait();
+    } catch (error) {
+      if (error.receipt) {
+        return error.receipt as TransactionReceipt;
+      }
+      throw error;
+    }
+  };
+
+  const send = async (tx: PopulatedTransaction): Promise<SentTransaction> => {
+    // Estimating first surfaces a revert before anything is broadcast
+    let gasLimit: BigNumber;
+    try {
+      gasLimit = (await signer.estimateGas(tx)).mul(GAS_LIMIT_MARGIN).div(100);
+    } catch (error) {
+      incrementCounter("keeper_transactions_total", { result: "failed" });
+      throw error;
+    }
+    let fees = scaleFees(
+      await getFeeData(keeperNetwork.name, signer.provider),
+      100,
+      maxFee
+    );
+    const nonce = isRelayed ? null : await nextNonce();
+
+    const broadcast = () =>
+      signer.sendTransaction(
+        isRelayed ? { ...tx, gasLimit } : { ...tx, ...fees, nonce, gasLimit }
+      );
+
+    let responses: TransactionResponse[];
+    try {
+      responses = [await broadcast()];
+    } catch (error) {
+      // Resync so the unused nonce does not block the next send
+      localNonce = 0;
+      incrementCounter("keeper_transactions_total", { result: "failed" });
+      throw error;
+    }
+
+    const wait = async () => {
+      const sentAt = Date.now();
+      let lastBroadcast = sentAt;
+
+      for (;;) {
+        // Read before the receipts, so a nonce mined by one of ours shows
+        // its receipt below
+        const minedCount = isRelayed
+          ? null
+          : await signer.getTransactionCount("latest");
+
+        for (const response of responses) {
+          const receipt = await getReceipt(response);
+          if (receipt) {
+            recordReceipt(keeperNetwork.chainId, receipt, recordsGas);
+            if (receipt.status === 0) {
+              throw new Error(
+                `${receipt.transactionHash} reverted: ${await getRevertReason(
+                  tx,
+                  receipt.blockNumber
+                )}`
+              );
+            }
+            return receipt;
+          }
+        }
+
+        if (minedCount !== null && minedCount > nonce) {
+          incrementCounter("keeper_transactions_total", { result: "failed" });
+          throw new Error(
+            `Nonce ${nonce} was mined by another transaction than ${responses
+              .map(({ hash }) => hash)
+              .join(", ")}`
+          );
+        }
+        if (Date.now() - sentAt >= WAIT_TIMEOUT) {
+          incrementCounter("keeper_transactions_total", { result: "failed" });
+          throw new Error(
+            `${responses[0].hash} not mined after ${
+              WAIT_TIMEOUT / 60000
+            } minutes`
+          );
+        }
+
+        const bumpedFees = scaleFees(fees, FEE_BUMP, maxFee);
+
+        if (
+          !isRelayed &&
+          Date.now() - lastBroadcast >= REBROADCAST_AFTER &&
+          canReplace(fees, bumpedFees)
+        ) {
+          fees = bumpedFees;
+          lastBroadcast = Date.now();
+          try {
+            responses = [...responses, await broadcast()];
+          } catch (error) {
+            // An earlier broadcast was mined in the meantime
+            console.log(`Rebroadcast of nonce ${nonce} failed: ${error}`);
+          }
+        }
+
+        await sleep(POLL_INTERVAL);
+      }
+    };
+
+    return { nonce: responses[0].nonce, hash: responses[0].hash, wait };
+  };
+
+  return { send };
+};
+
+export type TxManager = ReturnType<typeof createTxManager>;
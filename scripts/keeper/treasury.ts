@@ -0,0 +1,72 @@
+import { Contract, ethers } from "ethers";
+import { Provider, TransactionReceipt } from "@ethersproject/providers";
+import { getNextExpiry } from "../helpers/calendar";
+
+const { formatUnits } = ethers.utils;
+
+const otokenExpiry = new ethers.utils.Interface([
+  "function expiryTimestamp() view returns (uint256)",
+]);
+
+/**
+ * A treasury vault only commits once its current option has expired,
+ * so most weeks are skipped for vaults with a period above 7 days.
+ * @return whether the round is due and the expiry the vault rolls on next
+ */
+export async function getTreasuryRound(provider: Provider, vault: Contract) {
+  const period = (await vault.period()).toNumber();
+  const currentOption = await vault.currentOption();
+  const { timestamp } = await provider.getBlock("latest");
+
+  if (currentOption === ethers.constants.AddressZero) {
+    return { isDue: true, expiry: getNextExpiry(timestamp, period) };
+  }
+
+  const expiry = (
+    await new Contract(currentOption, otokenExpiry, provider).expiryTimestamp()
+  ).toNumber();
+
+  return expiry <= timestamp
+    ? { isDue: true, expiry: getNextExpiry(expiry, period) }
+    : { isDue: false, expiry };
+}
+
+/**
+ * Summarises the performance fee and premium distribution emitted
+ * by concludeOptionsSale() or chargeAndDistribute()
+ */
+export function getDistributionReport(
+  vault: Contract,
+  receipt: TransactionReceipt,
+  decimals: number,
+  symbol: string
+) {
+  const format = (amount: ethers.BigNumber) =>
+    `${formatUnits(amount, decimals)} ${symbol}`;
+  let report = "";
+
+  for (const log of receipt.logs) {
+    if (log.address.toLowerCase() !== vault.address.toLowerCase()) {
+      continue; // eslint-disable-line no-continue
+    }
+
+    const event = vault.interface.parseLog(log);
+
+    if (event.name === "CollectPerformanceFee") {
+      report += `Performance fee (round ${event.args.round}): ${format(
+        event.args.performanceFee
+      )} to ${event.args.feeRecipient}\n`;
+    } else if (event.name === "DistributePremium") {
+      report += `Premium distributed (round ${event.args.round}): ${format(
+        event.args.amount
+      )}\n`;
+      for (let i = 0; i < event.args.recipients.length; i++) {
+        report += `  ${event.args.recipients[i]}: ${format(
+          event.args.amounts[i]
+        )}\n`;
+      }
+    }
+  }
+
+  return report;
+}
@@ -0,0 +1,77 @@
+import { ethers } from "ethers";
+import { Provider } from "@ethersproject/providers";
+
+// gnosis: RibbonThetaVault and its yearn / stETH variants, sold through Gnosis EasyAuction
+// swap: RibbonThetaVaultWithSwap, sold through signed bids settled against Swap
+// treasury: RibbonTreasuryVault, rolled every `period` days and paying premiums out to depositors
+export type VaultFlavour = "gnosis" | "swap" | "treasury";
+
+// Artifact holding the ABI of each flavour's vault
+export const VAULT_ARTIFACTS: Record<VaultFlavour, string> = {
+  gnosis: "RibbonThetaVault",
+  swap: "RibbonThetaVaultWithSwap",
+  treasury: "RibbonTreasuryVault",
+};
+
+const flavourProbe = new ethers.utils.Interface([
+  "function SWAP_CONTRACT() view returns (address)",
+  "function period() view returns (uint256)",
+]);
+
+// Only filled in once a detection went through
+const vaultFlavours: { [vaultAddress: string]: VaultFlavour } = {};
+
+const REVERT_MESSAGE = /revert/i;
+
+// A call the vault cannot answer reverts, anything else may be the node
+const isRevert = (
+  error: any // eslint-disable-line @typescript-eslint/no-explicit-any
+) =>
+  error.code === ethers.errors.CALL_EXCEPTION ||
+  REVERT_MESSAGE.test(`${error.message} ${(error.error || {}).message}`);
+
+/**
+ * Whether the vault answers the getter. Errors other than a revert, such as
+ * timeouts and rate limits, are thrown as they say nothing of the vault.
+ */
+const hasFunction = async (
+  provider: Provider,
+  address: string,
+  functionName: string
+) => {
+  try {
+    const result = await provider.call({
+      to: address,
+      data: flavourProbe.encodeFunctionData(functionName),
+    });
+    // Some nodes hand a revert back as return data, which fails to decode
+    flavourProbe.decodeFunctionResult(functionName, result);
+    return true;
+  } catch (error) {
+    if (isRevert(error)) {
+      return false;
+    }
+    throw error;
+  }
+};
+
+/**
+ * Detects which lifecycle a vault follows from the getters it exposes.
+ * Results are cached as a vault proxy never changes flavour, a detection
+ * failing on the node throws and is tried again on the next call.
+ */
+export const getVaultFlavour = async (
+  provider: Provider,
+  vaultAddress: string
+): Promise<VaultFlavour> => {
+  if (!vaultFlavours[vaultAddress]) {
+    let flavour: VaultFlavour = "gnosis";
+    if (await hasFunction(provider, vaultAddress, "SWAP_CONTRACT")) {
+      flavour = "swap";
+    } else if (await hasFunction(provider, vaultAddress, "period")) {
+      flavour = "treasury";
+    }
+    vaultFlavours[vaultAddress] = flavour;
+  }
+  return vaultFlavours[vaultAddress];
+};
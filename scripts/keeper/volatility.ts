@@ -0,0 +1,483 @@
+import * as fs from "fs";
+import { BigNumber, Contract, PopulatedTransaction, ethers } from "ethers";
+import { Provider } from "@ethersproject/providers";
+import got from "got";
+import { findExpiryRoundId } from "./expiryPrices";
+import { VaultDeployment } from "./networks";
+import defaultConfig from "../../constants/keeper-vol.json";
+import defaultOverrides from "../../constants/keeper-vol-overrides.json";
+
+require("dotenv").config();
+
+const DAY = 24 * 3600;
+// ManualVolOracle stores vols with 8 decimals, 1e8 = 100%
+const VOL_DECIMALS = 8;
+// setAnnualizedVol reverts unless every vol is strictly between these
+const ORACLE_MIN_VOL = 0.5;
+const ORACLE_MAX_VOL = 4;
+// Currencies Deribit publishes a DVOL index for
+const DVOL_CURRENCIES = ["BTC", "ETH"];
+
+export interface VolConfig {
+  // Sources queried for every asset, by name
+  sources: string[];
+  // Quotes outside these bounds are dropped, annualized
+  minVol: number;
+  maxVol: number;
+  // Largest distance from the median a quote is kept at, in percent
+  maxSpread: number;
+  // Smallest change written to the oracle, in percent
+  minDeviation: number;
+  // Days of Chainlink history realized vol is measured over
+  realizedDays: number;
+  // Underlying symbols quoted as another asset, e.g. WETH as ETH
+  aliases: { [symbol: string]: string };
+  // Chainlink USD feeds per asset and chain
+  feeds: { [asset: string]: { [chainId: string]: string } };
+}
+
+export interface VolSource {
+  name: string;
+  // A quote from an override source replaces the combined vol
+  isOverride?: boolean;
+  // Annualized vol as a fraction, null when the asset is not covered
+  getVol: (asset: string) => Promise<number | null>; // eslint-disable-line no-unused-vars
+}
+
+export interface VolQuote {
+  source: string;
+  vol: number | null;
+  isOverride?: boolean;
+  error?: string;
+}
+
+export interface CombinedVol {
+  vol: number | null;
+  used: VolQuote[];
+  rejected: VolQuote[];
+}
+
+export interface VolTarget {
+  // Vaults whose strike selection reads the option ID
+  name: string;
+  asset: string;
+  optionId: string;
+}
+
+export type VolUpdateStatus =
+  | "update"
+  | "unchanged"
+  | "noQuote"
+  | "outOfBounds";
+
+export interface VolUpdate extends VolTarget, CombinedVol {
+  quotes: VolQuote[];
+  status: VolUpdateStatus;
+  current: BigNumber;
+  next: BigNumber | null;
+}
+
+// eslint-disable-next-line no-unused-vars, @typescript-eslint/no-explicit-any
+export type FetchJson = (url: string) => Promise<any>;
+
+const aggregatorInterface = new ethers.utils.Interface([
+  "function latestRound() view returns (uint256)",
+  "function getTimestamp(uint256 roundId) view returns (uint256)",
+  "function getAnswer(uint256 roundId) view returns (int256)",
+]);
+
+const volTargetProbe = new ethers.utils.Interface([
+  "function optionsPremiumPricer() view returns (address)",
+  "function volatilityOracle() view returns (address)",
+  "function optionId() view returns (bytes32)",
+  "function vaultParams() view returns (bool isPut, uint8 decimals, address asset, address underlying, uint56 minimumSupply, uint104 cap)",
+  "function symbol() view returns (string)",
+]);
+
+const manualVolInterface = new ethers.utils.Interface([
+  "function annualizedVol(bytes32 optionId) view returns (uint256)",
+  "function setAnnualizedVol(bytes32[] optionIds, uint256[] newAnnualizedVols)",
+]);
+
+/**
+ * Reads the vol config from KEEPER_VOL when set,
+ * constants/keeper-vol.json otherwise
+ */
+export const loadVolConfig = (): VolConfig =>
+  process.env.KEEPER_VOL
+    ? JSON.parse(fs.readFileSync(process.env.KEEPER_VOL, "utf8"))
+    : (defaultConfig as VolConfig);
+
+/**
+ * Reads the vols forced per asset from KEEPER_VOL_OVERRIDES when set,
+ * constants/keeper-vol-overrides.json otherwise
+ */
+export const loadVolOverrides = (): { [asset: string]: number } =>
+  process.env.KEEPER_VOL_OVERRIDES
+    ? JSON.parse(fs.readFileSync(process.env.KEEPER_VOL_OVERRIDES, "utf8"))
+    : defaultOverrides;
+
+const fetchJson: FetchJson = async (url) => JSON.parse((await got(url)).body);
+
+/**
+ * Latest close of Deribit's DVOL index, only published for BTC and ETH
+ */
+export const createDeribitSource = (
+  getJson: FetchJson = fetchJson,
+  now = () => Date.now()
+): VolSource => ({
+  name: "deribit",
+  getVol: async (asset) => {
+    if (!DVOL_CURRENCIES.includes(asset)) {
+      return null;
+    }
+
+    const end = now();
+    // https://docs.deribit.com/?javascript#public-get_volatility_index_data
+    const response = await getJson(
+      `https://www.deribit.com/api/v2/public/get_volatility_index_data?currency=${asset}&end_timestamp=${end}&resolution=3600&start_timestamp=${
+        end - DAY * 1000
+      }`
+    );
+
+    // Candles are [timestamp, open, high, low, close], close in percent
+    const candles: number[][] = response.result.data;
+    if (candles.length === 0) {
+      return null;
+    }
+    return candles[candles.length - 1][4] / 100;
+  },
+});
+
+/**
+ * Annualized standard deviation of the daily log returns of the prices
+ * @return null with fewer than three prices
+ */
+export const getRealizedVol = (prices: number[]) => {
+  const returns = prices
+    .slice(1)
+    .map((price, index) => Math.log(price / prices[index]));
+  if (returns.length < 2) {
+    return null;
+  }
+
+  const mean = returns.reduce((sum, value) => sum + value, 0) / returns.length;
+  const variance =
+    returns.reduce((sum, value) => sum + (value - mean) ** 2, 0) /
+    (returns.length - 1);
+  return Math.sqrt(variance * 365);
+};
+
+/**
+ * Realized vol over the last `days` days, sampling the Chainlink feed of
+ * the asset once a day
+ */
+export const createChainlinkSource = (
+  provider: Provider,
+  feeds: { [asset: string]: string },
+  days: number,
+  now = () => Math.floor(Date.now() / 1000)
+): VolSource => ({
+  name: "chainlink",
+  getVol: async (asset) => {
+    if (!feeds[asset]) {
+      return null;
+    }
+
+    const aggregator = new Contract(
+      feeds[asset],
+      aggregatorInterface,
+      provider
+    );
+    const timestamp = now();
+    const prices = [];
+
+    for (let day = days; day > 0; day--) {
+      // The price at a time is the last round reported before it
+      const roundId = await findExpiryRoundId(
+        aggregator,
+        timestamp - day * DAY
+      );
+      if (!roundId) {
+        return null;
+      }
+      prices.push(
+        Number((await aggregator.getAnswer(roundId.sub(1))).toString())
+      );
+    }
+    const latestRound = await aggregator.latestRound();
+    prices.push(Number((await aggregator.getAnswer(latestRound)).toString()));
+
+    return getRealizedVol(prices);
+  },
+});
+
+/**
+ * Vols set by hand, overriding every other source for their asset
+ */
+export const createStaticSource = (overrides: {
+  [asset: string]: number;
+}): VolSource => ({
+  name: "static",
+  isOverride: true,
+  getVol: async (asset) => (asset in overrides ? overrides[asset] : null),
+});
+
+/**
+ * Builds the sources named in the config for the chain
+ */
+export const createVolSources = (
+  provider: Provider,
+  chainId: number,
+  config: VolConfig
+) => {
+  const feeds: { [asset: string]: string } = {};
+  for (const [asset, chainFeeds] of Object.entries(config.feeds)) {
+    if (chainFeeds[chainId]) {
+      feeds[asset] = chainFeeds[chainId];
+    }
+  }
+
+  return config.sources.map((name) => {
+    switch (name) {
+      case "deribit":
+        return createDeribitSource();
+      case "chainlink":
+        return createChainlinkSource(provider, feeds, config.realizedDays);
+      case "static":
+        return createStaticSource(loadVolOverrides());
+      default:
+        throw new Error(`Unknown vol source ${name}`);
+    }
+  });
+};
+
+export async function getVolQuotes(sources: VolSource[], asset: string) {
+  const quotes: VolQuote[] = [];
+
+  for (const source of sources) {
+    try {
+      quotes.push({
+        source: source.name,
+        vol: await source.getVol(asset),
+        isOverride: source.isOverride,
+      });
+    } catch (error) {
+      quotes.push({ source: source.name, vol: null, error: error.message });
+    }
+  }
+
+  return quotes;
+}
+
+const median = (values: number[]) => {
+  const sorted = [...values].sort((a, b) => a - b);
+  const middle = Math.floor(sorted.length / 2);
+  return sorted.length % 2
+    ? sorted[middle]
+    : (sorted[middle - 1] + sorted[middle]) / 2;
+};
+
+/**
+ * Median of the quotes within the config bounds. With three quotes or more,
+ * those further than `maxSpread` from the median are dropped as outliers
+ * and the median taken again. An override quote wins outright.
+ */
+export const combineVols = (
+  quotes: VolQuote[],
+  config: VolConfig
+): CombinedVol => {
+  const quoted = quotes.filter(({ vol }) => vol !== null);
+
+  const override = quoted.find(({ isOverride }) => isOverride);
+  if (override) {
+    return {
+      vol: override.vol,
+      used: [override],
+      rejected: quoted.filter((quote) => quote !== override),
+    };
+  }
+
+  let used = quoted.filter(
+    ({ vol }) => vol >= config.minVol && vol <= config.maxVol
+  );
+
+  if (used.length >= 3) {
+    const center = median(used.map(({ vol }) => vol));
+    used = used.filter(
+      ({ vol }) => Math.abs(vol - center) * 100 <= center * config.maxSpread
+    );
+  }
+
+  return {
+    vol: used.length > 0 ? median(used.map(({ vol }) => vol)) : null,
+    used,
+    rejected: quoted.filter((quote) => !used.includes(quote)),
+  };
+};
+
+/**
+ * Symbol of the vault's underlying and the asset vol sources and market
+ * data providers quote it as, e.g. WETH and ETH
+ */
+export async function getUnderlying(
+  provider: Provider,
+  vaultAddress: string,
+  config: VolConfig
+) {
+  const vault = new Contract(vaultAddress, volTargetProbe, provider);
+  const { underlying } = await vault.vaultParams();
+  const symbol: string = await new Contract(
+    underlying,
+    volTargetProbe,
+    provider
+  ).symbol();
+  return { symbol, asset: config.aliases[symbol] || symbol.toUpperCase() };
+}
+
+/**
+ * Option IDs the vaults' premium pricers read from the oracle, each with
+ * the asset it is quoted as. Vaults sharing a pricer share an option ID.
+ */
+export async function getVolTargets(
+  provider: Provider,
+  vaults: { [vaultName: string]: VaultDeployment },
+  oracleAddress: string,
+  config: VolConfig
+) {
+  const targets = new Map<string, VolTarget>();
+
+  for (const [vaultName, vaultDeployment] of Object.entries(vaults)) {
+    const vault = new Contract(
+      vaultDeployment.address,
+      volTargetProbe,
+      provider
+    );
+
+    let pricerAddress = vaultDeployment.optionsPremiumPricer;
+    if (!pricerAddress) {
+      try {
+        pricerAddress = await vault.optionsPremiumPricer();
+      } catch (error) {
+        continue; // eslint-disable-line no-continue
+      }
+    }
+
+    const pricer = new Contract(pricerAddress, volTargetProbe, provider);
+    const volatilityOracle: string = await pricer.volatilityOracle();
+    if (volatilityOracle.toLowerCase() !== oracleAddress.toLowerCase()) {
+      continue; // eslint-disable-line no-continue
+    }
+
+    const optionId: string = await pricer.optionId();
+    const target = targets.get(optionId);
+    if (target) {
+      target.name = `${target.name}, ${vaultName}`;
+      continue; // eslint-disable-line no-continue
+    }
+
+    targets.set(optionId, {
+      name: vaultName,
+      asset: (await getUnderlying(provider, vaultDeployment.address, config))
+        .asset,
+      optionId,
+    });
+  }
+
+  return [...targets.values()];
+}
+
+export const toOracleVol = (vol: number) =>
+  ethers.utils.parseUnits(vol.toFixed(VOL_DECIMALS), VOL_DECIMALS);
+
+export const formatVol = (vol: BigNumber) =>
+  `${(Number(ethers.utils.formatUnits(vol, VOL_DECIMALS)) * 100).toFixed(2)}%`;
+
+/**
+ * Combines the sources' quotes for every target and compares them with the
+ * vol the oracle holds. Changes below `minDeviation` are left out, and so
+ * are vols setAnnualizedVol would revert on, which would fail the whole batch.
+ */
+export async function getVolUpdates(
+  provider: Provider,
+  oracleAddress: string,
+  targets: VolTarget[],
+  sources: VolSource[],
+  config: VolConfig
+): Promise<VolUpdate[]> {
+  const oracle = new Contract(oracleAddress, manualVolInterface, provider);
+  const assetQuotes = new Map<string, VolQuote[]>();
+  const updates = [];
+
+  for (const target of targets) {
+    if (!assetQuotes.has(target.asset)) {
+      assetQuotes.set(target.asset, await getVolQuotes(sources, target.asset));
+    }
+    const quotes = assetQuotes.get(target.asset);
+    const combinedVol = combineVols(quotes, config);
+    const current: BigNumber = await oracle.annualizedVol(target.optionId);
+
+    if (combinedVol.vol === null) {
+      updates.push({
+        ...target,
+        ...combinedVol,
+        quotes,
+        status: "noQuote",
+        current,
+        next: null,
+      });
+      continue; // eslint-disable-line no-continue
+    }
+
+    const next = toOracleVol(combinedVol.vol);
+    if (
+      next.lte(toOracleVol(ORACLE_MIN_VOL)) ||
+      next.gte(toOracleVol(ORACLE_MAX_VOL))
+    ) {
+      updates.push({
+        ...target,
+        ...combinedVol,
+        quotes,
+        status: "outOfBounds",
+        current,
+        next,
+      });
+      continue; // eslint-disable-line no-continue
+    }
+
+    const isSmallChange =
+      current.gt(0) &&
+      next.sub(current).abs().mul(100).lt(current.mul(config.minDeviation));
+
+    updates.push({
+      ...target,
+      ...combinedVol,
+      quotes,
+      status: isSmallChange ? "unchanged" : "update",
+      current,
+      next,
+    });
+  }
+
+  return updates;
+}
+
+/**
+ * Single setAnnualizedVol call writing every update
+ * @return null when nothing needs writing
+ */
+export async function populateVolUpdates(
+  oracleAddress: string,
+  updates: VolUpdate[]
+): Promise<PopulatedTransaction | null> {
+  const changes = updates.filter(({ status }) => status === "update");
+  if (changes.length === 0) {
+    return null;
+  }
+
+  const oracle = new Contract(oracleAddress, manualVolInterface);
+  return oracle.populateTransaction.setAnnualizedVol(
+    changes.map(({ optionId }) => optionId),
+    changes.map(({ next }) => next)
+  );
+}
@@ -1,255 +1,208 @@
 import hre from "hardhat";
-import { ethers, BigNumber, constants, Contract, Wallet } from "ethers";
-import { Provider } from "@ethersproject/providers";
-import { Command } from "commander";
-import auth from "./auth.json";
-import {
-  getDefaultProvider,
-  getDefaultSigner,
-} from "./helpers/getDefaultEthersProvider";
-import moment from "moment";
-import got from "got";
-import deployments from "../constants/deployments-mainnet-cron.json";
-import { gas } from "./helpers/getGasPrice";
-import { wmul } from "../test/helpers/math";
-import * as fs from "fs";
-import simpleGit, { SimpleGit, SimpleGitOptions } from "simple-git";
+import { ethers, BigNumber, constants, Contract, Signer } from "ethers";
+import { Provider, TransactionReceipt } from "@ethersproject/providers";
+import { getDefaultProvider } from "./helpers/getDefaultEthersProvider";
+import { createSigner, getRoleSigner } from "./helpers/signers";
 import {
+  CHAINID,
   GNOSIS_EASY_AUCTION,
   VOL_ORACLE,
   MANUAL_VOL_ORACLE,
-  BYTES_ZERO,
 } from "../constants/constants";
-import { encodeOrder } from "../test/helpers/utils";
-import OptionsPremiumPricer_ABI from "../constants/abis/OptionsPremiumPricer.json";
-import ManualVolOracle_ABI from "../constants/abis/ManualVolOracle.json";
-
-import { CronJob } from "cron";
-import Discord = require("discord.js");
+import { encodeOrder } from "./helpers/easyAuction";
+import OptionsPremiumPricer_ABI from "../constants/abis/OptionsPremiumPricerInStables.json";
+import {
+  auctionLink,
+  getKeeperNetwork,
+  getNetworkDeployments,
+  getOptionsPremiumPricerAddress,
+  getStrikeSelectionAddress,
+  txLink,
+} from "./keeper/networks";
+import {
+  VAULT_ARTIFACTS,
+  VaultFlavour,
+  getVaultFlavour,
+} from "./keeper/vaults";
+import { gatherBids, selectBids } from "./keeper/swap";
+import { getDistributionReport, getTreasuryRound } from "./keeper/treasury";
+import {
+  VaultStep,
+  getCommitExpiry,
+  getNextStep,
+  populateStep,
+} from "./keeper/lifecycle";
+import { StepOutcome, getStepOutcome } from "./keeper/events";
+import { decodeFailure, formatFailure } from "./keeper/revertReasons";
+import {
+  StrikeProposal,
+  clearPendingStep,
+  finishJob,
+  getProgress,
+  getStrikeProposals,
+  getVolChecks,
+  recordVolChecks,
+  setPendingStep,
+  setStrikeProposal,
+  startJob,
+} from "./keeper/progress";
+import { TxManager, createTxManager } from "./keeper/transactions";
+import {
+  getCycleCost,
+  getNativeBalances,
+  getTokenBalances,
+  loadBalanceConfig,
+} from "./keeper/balances";
+import {
+  getChainlinkPricers,
+  getExpiryPriceUpdate,
+} from "./keeper/expiryPrices";
+import {
+  getDiscountedPremium,
+  getMinPrice,
+  getMinPriceSettings,
+  loadMinPriceConfig,
+  toCollateralPremium,
+} from "./keeper/minPrice";
+import { getAuctionStatus } from "./keeper/auctionMonitor";
+import {
+  getManualStrikeSettings,
+  ModelInputs,
+  getModelStrike,
+  getStrikeStep,
+  loadManualStrikeConfig,
+} from "./keeper/manualStrikes";
+import {
+  getPreflightErrors,
+  getPreflightSettings,
+  loadPreflightConfig,
+} from "./keeper/preflight";
+import {
+  getChainlinkPrice,
+  getRollGuardErrors,
+  getRollGuardSettings,
+  getSuggestedStrike,
+  loadRollGuardConfig,
+  readRollCheck,
+} from "./keeper/rollGuard";
+import {
+  checkVaultStrike,
+  createMarketDataProvider,
+  getStrikeGuardSettings,
+  getStrikeReference,
+  getVaultStrike,
+  loadStrikeGuardConfig,
+} from "./keeper/strikeGuard";
+import {
+  VaultTimes,
+  WeekMinute,
+  addMinutes,
+  formatWeekMinute,
+  getLastWeekMinute,
+  getScheduleErrors,
+  getVaultSchedule,
+  getVaultTimes,
+  groupByTime,
+  isScheduledExpiry,
+  loadScheduleConfig,
+  toCronTime,
+} from "./keeper/schedule";
+import {
+  VolQuote,
+  combineVols,
+  createVolSources,
+  formatVol,
+  getVolQuotes,
+  getVolTargets,
+  getUnderlying,
+  getVolUpdates,
+  loadVolConfig,
+  populateVolUpdates,
+} from "./keeper/volatility";
+import {
+  clearGauge,
+  recordJobSuccess,
+  setGauge,
+  startMetricsServer,
+} from "./keeper/metrics";
+import {
+  MessageType,
+  Severity,
+  createNotifier,
+  loadNotifierConfig,
+} from "./keeper/notifiers";
 
-const { formatUnits } = ethers.utils;
+import { getFeeData } from "./helpers/getGasPrice";
+import { updateTokenList } from "./helpers/tokenList";
 
-const program = new Command();
-program.version("0.0.1");
-program.option("-n, --network <network>", "Network", "mainnet");
+import { CronJob } from "cron";
 
-program.parse(process.argv);
+const { formatEther, formatUnits, parseUnits } = ethers.utils;
 
 require("dotenv").config();
 
-const client = new Discord.Client();
-
-const network = program.network === "mainnet" ? "mainnet" : "kovan";
-const provider = getDefaultProvider(program.network);
-const signer = getDefaultSigner("m/44'/60'/0'/0/0", network).connect(provider);
-const auctionParticipantTag = "<@&893435203144544316>";
+// Defaults to mainnet, set CHAINID to run the lifecycle on any other network
+const chainId = process.env.CHAINID
+  ? Number(process.env.CHAINID)
+  : CHAINID.ETH_MAINNET;
+const keeperNetwork = getKeeperNetwork(chainId);
+const network = keeperNetwork.name;
+const deployments = getNetworkDeployments(keeperNetwork);
+const provider = getDefaultProvider(network);
+const notify = createNotifier(loadNotifierConfig());
+const scheduleConfig = loadScheduleConfig();
+const strikeGuardConfig = loadStrikeGuardConfig();
+const marketData = createMarketDataProvider(strikeGuardConfig);
+const rollGuardConfig = loadRollGuardConfig();
+// When each vault's steps run, set up by checkSchedule()
+const vaultTimes: { [vaultName: string]: VaultTimes } = {};
+// Set up by initSigners() from the signer config
+let signer: Signer;
+let keeperAddress: string;
+let txManager: TxManager;
+// Optional wallet topping up keeper and relayer balances
+let fundingTxManager: TxManager | null = null;
+// Optional owner role signer, for owner-only calls the keeper cannot make
+let ownerAddress: string | null = null;
+let ownerTxManager: TxManager | null = null;
 
 const HOUR = 3600;
 const DAY = 24 * HOUR;
-const TX_SLEEP_TIME = 300000; // 5 minutes
-
-let gasLimits = {
-  volOracleCommit: 85000,
-  volOracleAnnualizedVol: 50000,
-  settleAuction: 200000,
-  claimAuctionOtokens: 200000,
-  commitAndClose: 1500000,
-  rollToNextOption: 1500000,
-  burnRemainingOTokens: 100000,
-};
-
-interface Version {
-  major: number;
-  minor: number;
-  patch: number;
-}
-
-interface OToken {
-  logoURI: string;
-  chainId: number;
-  address: string;
-  name: string;
-  symbol: string;
-  decimals: number;
-}
-
-interface TokenSet {
-  name: string;
-  keywords: Array<string>;
-  timestamp: string;
-  version: Version;
-  tokens: Array<OToken>;
-}
+const YEAR = 365 * DAY;
+// Attempts at a step after a retryable failure, and the wait before each
+const STEP_RETRIES = 3;
+const STEP_RETRY_DELAY = 120000; // 2 minutes
 
 const sleep = async (ms: number) =>
   new Promise((resolve) => setTimeout(resolve, ms)); // eslint-disable-line no-promise-executor-return
 
-async function log(msg: string) {
-  if (msg.length >= 2000) {
-    console.log("EXCEEDED LENGTH");
-    console.log(msg);
-  }
-  (client.channels.cache.get(auth.channel_id) as Discord.TextChannel).send(msg);
+async function log(
+  msg: string,
+  type: MessageType = "transaction",
+  severity: Severity = "info"
+) {
+  await notify({ type, severity, message: msg });
 }
 
+// Deployments of the named vaults, every vault by default
+const getVaults = (vaultNames = Object.keys(deployments.vaults)) =>
+  Object.entries(deployments.vaults).filter(([vaultName]) =>
+    vaultNames.includes(vaultName)
+  );
+
 const getTopOfPeriod = async (provider: Provider, period: number) => {
   const latestTimestamp = (await provider.getBlock("latest")).timestamp;
   let topOfPeriod = latestTimestamp - (latestTimestamp % period) + period;
   return topOfPeriod;
 };
 
-const decimalShift = async (collateralAsset: Contract) => {
-  let decimals = await collateralAsset.decimals();
-  return BigNumber.from(10).pow(BigNumber.from(18).sub(decimals));
-};
-
-const getNextFriday = (currentExpiry: number) => {
-  let dayOfWeek = (currentExpiry / DAY + 4) % 7;
-  let nextFriday = currentExpiry + ((7 + 5 - dayOfWeek) % 7) * DAY;
-  let friday8am = nextFriday - (nextFriday % (24 * HOUR)) + 8 * HOUR;
-
-  // If the passed currentExpiry is day=Friday hour>8am, we simply increment it by a week to next Friday
-  if (currentExpiry >= friday8am) {
-    friday8am += 7 * DAY;
-  }
-  return friday8am;
-};
-
-function generateTokenSet(tokens: Array<OToken>) {
-  // reference: https://github.com/opynfinance/opyn-tokenlist/blob/master/opyn-v1.tokenlist.json
-  const tokenJSON: TokenSet = {
-    name: "Ribbon oTokens",
-    keywords: ["defi", "option", "opyn", "ribbon"],
-    //convert to something like 2021-09-08T10:51:49Z
-    timestamp: moment().format().toString().slice(0, -6) + "Z",
-    version: { major: 1, minor: 0, patch: 0 },
-    tokens,
-  };
-
-  return tokenJSON;
-}
-
-async function pushTokenListToGit(tokenSet: TokenSet, fileName: string) {
-  const options: Partial<SimpleGitOptions> = {
-    baseDir: process.cwd(),
-    binary: "git",
-    maxConcurrentProcesses: 6,
-  };
-
-  // when setting all options in a single object
-  const git: SimpleGit = simpleGit(options);
-  const filePath = `/home/ribbon-token-list/${fileName}`;
-
-  let newTokenSet = tokenSet;
-
-  let currentTokenSet = (
-    JSON.parse(
-      fs.readFileSync(filePath, { encoding: "utf8", flag: "r" })
-    ) as TokenSet
-  ).tokens;
-
-  // add new week's otokens to token list
-  newTokenSet.tokens = currentTokenSet.concat(newTokenSet.tokens);
-  //remove duplicates
-  newTokenSet.tokens = [
-    ...new Map(newTokenSet.tokens.map((item) => [item.address, item])).values(),
-  ];
-
-  await fs.writeFileSync(filePath, JSON.stringify(newTokenSet, null, 2), {
-    encoding: "utf8",
-    flag: "w",
-  });
-
-  await git
-    .cwd("/home/ribbon-token-list")
-    .addConfig("user.name", "cron job")
-    .addConfig("user.email", "some@one.com")
-    .add(filePath)
-    .commit(`update tokenset ${newTokenSet.timestamp}`)
-    .push("origin", "main");
-}
-
-async function getDeribitDelta(instrumentName: string) {
-  // https://docs.deribit.com/?javascript#public-get_mark_price_history
-  const request = `https://www.deribit.com/api/v2/public/get_order_book?depth=1&instrument_name=${instrumentName}`;
-  const response = await got(request);
-  const delta = JSON.parse(response.body).result.greeks.delta;
-  return delta;
-}
-
-async function getDeribitStrikePrice(
-  strikeSelection: Contract,
-  optionsPremiumPricer: Contract,
-  underlying: string,
-  isPut: boolean,
-  expiry: number
-) {
-  let delta = await strikeSelection.delta();
-  let spotPrice = parseInt(
-    (await optionsPremiumPricer.getUnderlyingPrice())
-      .div(BigNumber.from(10).pow(8))
-      .toString()
+async function getStrikePrice(vault: Contract, strikeSelection: Contract) {
+  const expiry = await getCommitExpiry(
+    provider,
+    vault,
+    await getVaultFlavour(provider, vault.address)
   );
 
-  // in milliseconds
-  let expiryMargin = 3 * HOUR * 1000;
-
-  // https://docs.deribit.com/?shell#public-get_instrument
-  var request = `https://www.deribit.com/api/v2/public/get_instruments?currency=${underlying}&expired=false&kind=option`;
-  const response = await got(request);
-
-  let instruments = JSON.parse(response.body).result;
-
-  var bestStrike = 0;
-  var bestDelta = 1000000;
-  var bestDeltaDiff = 1000000;
-
-  for (const instrument of instruments) {
-    let intrumentName = instrument.instrument_name;
-    // If the expiry is the same expiry as our option and is same type (put / call)
-    let sameOptionType = isPut === (instrument.option_type === "put");
-    let sameExpiry =
-      Math.abs(expiry * 1000 - instrument.expiration_timestamp) < expiryMargin;
-    let isOTM = instrument.strike > spotPrice;
-    if (sameOptionType && sameExpiry && isOTM) {
-      let currDelta = await getDeribitDelta(intrumentName);
-      let currDiff = Math.abs(currDelta * 10000 - delta);
-      // If the delta of the current instrument is closest to 0.1d
-      // so far we update the best strike
-      if (currDiff < bestDeltaDiff) {
-        bestDeltaDiff = currDiff;
-        bestDelta = currDelta;
-        bestStrike = instrument.strike;
-      }
-    }
-  }
-
-  return [bestStrike, bestDelta];
-}
-
-async function getStrikePrice(
-  vault: Contract,
-  strikeSelection: Contract,
-  iOtokenABI: any // eslint-disable-line @typescript-eslint/no-explicit-any
-) {
-  let expiry;
-  let currentOption = (await vault.optionState()).currentOption;
-  if (currentOption === constants.AddressZero) {
-    expiry = await getNextFriday((await provider.getBlock("latest")).timestamp);
-  } else {
-    expiry = await getNextFriday(
-      parseInt(
-        (
-          await new ethers.Contract(
-            currentOption,
-            iOtokenABI,
-            provider
-          ).expiryTimestamp()
-        ).toString()
-      )
-    );
-  }
-
   let isPut = (await vault.vaultParams()).isPut;
 
   let [strike, delta] = await strikeSelection.getStrikePrice(expiry, isPut);
@@ -273,265 +226,442 @@ async function getOptionPremium(
   return premium;
 }
 
-async function getAnnualizedVol(underlying: string, resolution: number) {
-  // in milliseconds
-  const latestTimestamp = (await provider.getBlock("latest")).timestamp * 1000;
-
-  let startTimestamp = (latestTimestamp - resolution * 1000).toString();
-  let endTimestamp = latestTimestamp.toString();
-
-  // https://docs.deribit.com/?javascript#public-get_volatility_index_data
-  const request = `https://www.deribit.com/api/v2/public/get_volatility_index_data?currency=${underlying}&end_timestamp=${endTimestamp}&resolution=${resolution}&start_timestamp=${startTimestamp}`;
-  const response = await got(request);
-
-  let candles = JSON.parse(response.body).result.data;
-  // indices for the timerange of the latest volatility value
-  // open = 1, high = 2, low = 3, close = 4
-  let pricePoint = 4;
-  // scale to 10 ** 6
-  return candles[candles.length - 1][pricePoint] * 10 ** 6;
-}
-
-async function updateTokenList(
-  fileName: string,
+// eslint-disable-next-line no-unused-vars
+async function claimFromParticipantOrder(
+  gnosisAuction: Contract,
   vaultArtifactAbi: any, // eslint-disable-line @typescript-eslint/no-explicit-any
-  ierc20Abi: any, // eslint-disable-line @typescript-eslint/no-explicit-any
-  provider: Provider,
-  network: string
+  provider: Provider
 ) {
-  let tokens = [];
-
-  for (
-    let vaultName = 0;
-    vaultName < deployments[network].vaults.length;
-    vaultName++
-  ) {
+  for (const vaultDeployment of Object.values(deployments.vaults)) {
     const vault = new ethers.Contract(
-      deployments[network].vaults[vaultName].address,
+      vaultDeployment.address,
       vaultArtifactAbi,
       provider
     );
 
-    let oToken = new ethers.Contract(
-      await vault.nextOption(),
-      ierc20Abi,
+    const thetaVault = new ethers.Contract(
+      await vault.counterpartyThetaVault(),
+      vaultArtifactAbi,
       provider
     );
 
-    let name = (await oToken.name()).split(" ");
-    name.pop();
-    name.pop();
+    const auctionID = await thetaVault.optionAuctionID();
+
+    try {
+      const tx = await txManager.send(
+        await gnosisAuction.populateTransaction.claimFromParticipantOrder(
+          auctionID,
+          [encodeOrder(await vault.auctionSellOrder())]
+        )
+      );
+      await tx.wait();
+
+      await log(
+        `GnosisAuction-claimFromParticipantOrder()-${auctionID}: ${txLink(
+          keeperNetwork,
+          tx.hash
+        )}`
+      );
+    } catch (error) {
+      await log(
+        `GnosisAuction-claimFromParticipantOrder()-${auctionID}: failed with ${formatFailure(
+          decodeFailure(error)
+        )}`,
+        "transaction",
+        "error"
+      );
+    }
+  }
+}
+
+// Steps each job takes, vaults waiting on any other step are left alone
+const COMMIT_STEPS: VaultStep[] = [
+  "commitAndClose",
+  "closeRound",
+  "commitNextOption",
+];
+const ROLL_STEPS: VaultStep[] = ["rollToNextOption"];
+const SETTLE_STEPS: VaultStep[] = [
+  "settleAuction",
+  "settleOffer",
+  "concludeOptionsSale",
+  "chargeAndDistribute",
+  "burnRemainingOTokens",
+];
+
+const stepLabel = (step: VaultStep, flavour: VaultFlavour) => {
+  if (step === "settleAuction") {
+    return "GnosisAuction";
+  }
+  return flavour === "treasury" ? "TreasuryVault" : "ThetaVault";
+};
+
+async function sendOffer(vaultName: string, vault: Contract) {
+  const swapArtifact = await hre.artifacts.readArtifact("Swap");
+  const swap = new ethers.Contract(
+    await vault.SWAP_CONTRACT(),
+    swapArtifact.abi,
+    provider
+  );
+  const swapId = await vault.optionAuctionID();
+
+  const { bids, rejected } = await selectBids(
+    swap,
+    swapId,
+    await gatherBids(chainId, swapId)
+  );
+
+  for (const { bid, errors } of rejected) {
+    await log(
+      `Swap-settleOffer()-${swapId}: rejected bid ${bid.nonce} from ${
+        bid.signerWallet
+      } (${errors.join(", ")})`,
+      "report",
+      "warning"
+    );
+  }
+
+  if (bids.length === 0) {
+    const { totalSize, availableSize } = await swap.swapOffers(swapId);
+
+    // Part of the offer sold, the rest is burnt rather than left unsold
+    if (availableSize.lt(totalSize)) {
+      await log(
+        `ThetaVault-settleOffer()-${vaultName}: no bids left for the remaining ${availableSize.toString()} oTokens, burning them`,
+        "report",
+        "warning"
+      );
+      return {
+        step: "burnRemainingOTokens" as VaultStep,
+        tx: await txManager.send(
+          await vault.populateTransaction.burnRemainingOTokens()
+        ),
+      };
+    }
 
-    const token: OToken = {
-      logoURI: "https://i.imgur.com/u5z1Ev2.png",
-      chainId: 1,
-      address: oToken.address,
-      name: name.join(" "),
-      symbol: (await oToken.symbol()).split("/")[1],
-      decimals: parseInt((await oToken.decimals()).toString()),
-    };
-    tokens.push(token);
+    await log(
+      `ThetaVault-settleOffer()-${vaultName}: no valid bids`,
+      "report",
+      "warning"
+    );
+    return null;
   }
 
-  await pushTokenListToGit(generateTokenSet(tokens), fileName);
+  return {
+    step: "settleOffer" as VaultStep,
+    tx: await txManager.send(await vault.populateTransaction.settleOffer(bids)),
+  };
 }
 
-async function settleAndBurn(
-  gnosisAuction: Contract,
-  vaultArtifactAbi: any, // eslint-disable-line @typescript-eslint/no-explicit-any
-  ierc20Abi: any, // eslint-disable-line @typescript-eslint/no-explicit-any
-  provider: Provider,
-  signer: Wallet,
-  network: string
+/**
+ * Sends the step, or the step the vault takes instead
+ * @return the step sent with its transaction, null when nothing was sent
+ */
+async function sendStep(
+  vaultName: string,
+  vault: Contract,
+  step: VaultStep,
+  gnosisAuction: Contract
 ) {
-  for (
-    let vaultName = 0;
-    vaultName < deployments[network].vaults.length;
-    vaultName++
+  if (step === "settleOffer") {
+    return sendOffer(vaultName, vault);
+  }
+  return {
+    step,
+    tx: await txManager.send(await populateStep(vault, step, gnosisAuction)),
+  };
+}
+
+async function reportStep(
+  vault: Contract,
+  step: VaultStep,
+  receipt: TransactionReceipt
+) {
+  if (step !== "concludeOptionsSale" && step !== "chargeAndDistribute") {
+    return "";
+  }
+
+  const usdc = new ethers.Contract(
+    await vault.USDC(),
+    (
+      await hre.artifacts.readArtifact(
+        "contracts/interfaces/IERC20Detailed.sol:IERC20Detailed"
+      )
+    ).abi,
+    provider
+  );
+
+  return `\n${getDistributionReport(
+    vault,
+    receipt,
+    await usdc.decimals(),
+    await usdc.symbol()
+  )}`;
+}
+
+/**
+ * Waits on a transaction sent for the vault before the keeper restarted,
+ * so the step it carries is not sent a second time
+ */
+async function resumePendingStep(vaultName: string, vaultAddress: string) {
+  const pending = getProgress(chainId).pending[vaultAddress];
+  if (!pending) {
+    return;
+  }
+
+  // The nonce stays unused until the transaction, or a replacement sent
+  // with higher fees, is mined or dropped
+  if (
+    (await provider.getTransactionCount(keeperAddress)) <= pending.nonce &&
+    (await provider.getTransactionCount(keeperAddress, "pending")) >
+      pending.nonce
   ) {
-    const vault = new ethers.Contract(
-      deployments[network].vaults[vaultName].address,
-      vaultArtifactAbi,
-      provider
+    throw new Error(
+      `${pending.step} (${vaultName}) still pending: ${pending.txHash}`
     );
-    const auctionID = await vault.optionAuctionID();
-    const auctionDetails = await gnosisAuction.auctionData(auctionID);
+  }
+  clearPendingStep(chainId, vaultAddress);
+}
+
+/**
+ * Runs the steps the vault needs next, as read from its on-chain state,
+ * for as long as they belong to the current job. A step failing for gas,
+ * nonce, RPC or timing reasons is sent again, up to STEP_RETRIES times.
+ * @param outcome collects what the mined steps did, from their events
+ * @return false when a step failed
+ */
+async function advanceVault(
+  vaultName: string,
+  vaultAddress: string,
+  steps: VaultStep[],
+  gnosisAuction: Contract,
+  outcome: StepOutcome
+) {
+  const flavour = await getVaultFlavour(provider, vaultAddress);
+  const vaultArtifact = await hre.artifacts.readArtifact(
+    VAULT_ARTIFACTS[flavour]
+  );
+  const vault = new ethers.Contract(vaultAddress, vaultArtifact.abi, provider);
+
+  let step = await getNextStep(provider, vault, flavour, gnosisAuction);
+
+  if (!steps.includes(step)) {
+    console.log(`${vaultName}: skipped, next step is ${step}`);
+    return true;
+  }
+
+  let retries = 0;
+
+  while (steps.includes(step)) {
+    const label = stepLabel(step, flavour);
 
     try {
-      // If initialAuctionOrder is bytes32(0) auction has
-      // already been settled as gnosis does gas refunds
-      if (auctionDetails.initialAuctionOrder !== BYTES_ZERO) {
-        let newGasPrice = (await gas(network)).toString();
-
-        const tx = await gnosisAuction
-          .connect(signer)
-          .settleAuction(auctionID.toString(), {
-            gasPrice: newGasPrice,
-            gasLimit: gasLimits.settleAuction,
-          });
+      const sent = await sendStep(vaultName, vault, step, gnosisAuction);
+      if (!sent) {
+        return false;
+      }
+      const { tx } = sent;
+      step = sent.step;
+
+      setPendingStep(chainId, vaultAddress, {
+        step,
+        txHash: tx.hash,
+        nonce: tx.nonce,
+        sentAt: Math.floor(Date.now() / 1000),
+      });
 
-        await tx.wait();
+      const receipt = await tx.wait();
+      clearPendingStep(chainId, vaultAddress);
 
-        await log(
-          `GnosisAuction-settleAuction()-${auctionID}: ${tx.transactionHash}`
-        );
+      Object.assign(outcome, getStepOutcome(vaultAddress, receipt));
+      // The committed oToken only shows up in the vault state
+      if (step === "commitAndClose" || step === "commitNextOption") {
+        outcome.oToken = (
+          await vault.optionState({ blockTag: receipt.blockNumber })
+        ).nextOption;
       }
 
-      let oTokenBalance = await new ethers.Contract(
-        await vault.currentOption(),
-        ierc20Abi,
-        provider
-      ).balanceOf(vault.address);
+      await log(
+        `${label}-${step}()-${vaultName}: ${txLink(
+          keeperNetwork,
+          tx.hash
+        )}${await reportStep(vault, step, receipt)}`
+      );
+    } catch (error) {
+      const failure = decodeFailure(error);
+      const retry = failure.kind === "retryable" && retries < STEP_RETRIES;
 
-      if (parseInt(oTokenBalance.toString()) === 0) {
-        continue; // eslint-disable-line no-continue
+      await log(
+        `${label}-${step}()-${vaultName}: failed with ${formatFailure(
+          failure
+        )}${retry ? `, retrying in ${STEP_RETRY_DELAY / 60000} minutes` : ""}`,
+        "transaction",
+        retry ? "warning" : "error"
+      );
+      if (!retry) {
+        return false;
       }
 
-      let newGasPrice2 = (await gas(network)).toString();
+      retries++;
+      await sleep(STEP_RETRY_DELAY);
+      // Never sends the step again while the failed send may still be mined
+      await resumePendingStep(vaultName, vaultAddress);
+      step = await getNextStep(provider, vault, flavour, gnosisAuction);
+      continue; // eslint-disable-line no-continue
+    }
 
-      const tx2 = await vault.connect(signer).burnRemainingOTokens({
-        gasPrice: newGasPrice2,
-        gasLimit: gasLimits.burnRemainingOTokens,
-      });
+    retries = 0;
+    const previousStep = step;
+    step = await getNextStep(provider, vault, flavour, gnosisAuction);
 
-      await log(`GnosisAuction-burnRemainingOTokens(): ${tx2.hash}`);
-    } catch (error) {
+    // A step which left the vault where it was would only fail again
+    if (step === previousStep) {
       await log(
-        `GnosisAuction-settleAuction()-${auctionID}: failed with error ${error}`
+        `${stepLabel(
+          step,
+          flavour
+        )}-${step}()-${vaultName}: mined but the vault is still waiting on ${step}`,
+        "report",
+        "error"
       );
+      return false;
     }
   }
+  return true;
 }
 
-// eslint-disable-next-line no-unused-vars
-async function claimFromParticipantOrder(
-  gnosisAuction: Contract,
-  vaultArtifactAbi: any, // eslint-disable-line @typescript-eslint/no-explicit-any
-  provider: Provider,
-  signer: Wallet,
-  network: string
+/**
+ * Moves the vaults through the given steps. The job is recorded until
+ * it has gone through every vault so it can be resumed after a crash.
+ * @return what the mined steps did, by vault
+ */
+async function advanceVaults(
+  job: string,
+  steps: VaultStep[],
+  vaultNames: string[]
 ) {
-  for (
-    let vaultName = 0;
-    vaultName < deployments[network].vaults.length;
-    vaultName++
-  ) {
-    const vault = new ethers.Contract(
-      deployments[network].vaults[vaultName].address,
-      vaultArtifactAbi,
-      provider
-    );
+  const gnosisArtifact = await hre.artifacts.readArtifact("IGnosisAuction");
+  const gnosisAuction = new ethers.Contract(
+    GNOSIS_EASY_AUCTION[chainId],
+    gnosisArtifact.abi,
+    provider
+  );
 
-    const thetaVault = new ethers.Contract(
-      await vault.counterpartyThetaVault(),
-      vaultArtifactAbi,
-      provider
-    );
+  const outcomes: { [vaultName: string]: StepOutcome } = {};
 
-    const auctionID = await thetaVault.optionAuctionID();
+  startJob(chainId, job);
 
+  for (const [vaultName, vaultDeployment] of getVaults(vaultNames)) {
+    outcomes[vaultName] = {};
     try {
-      let newGasPrice = (await gas(network)).toString();
-
-      const tx = await gnosisAuction
-        .connect(signer)
-        .claimFromParticipantOrder(
-          auctionID,
-          [encodeOrder(await vault.auctionSellOrder())],
-          { gasPrice: newGasPrice, gasLimit: gasLimits.claimAuctionOtokens }
-        );
-
-      await log(
-        `GnosisAuction-claimFromParticipantOrder()-${auctionID}: <https://etherscan.io/tx/${tx.hash}>`
-      );
+      await resumePendingStep(vaultName, vaultDeployment.address);
+      if (
+        await advanceVault(
+          vaultName,
+          vaultDeployment.address,
+          steps,
+          gnosisAuction,
+          outcomes[vaultName]
+        )
+      ) {
+        recordJobSuccess(job, vaultName);
+      }
     } catch (error) {
       await log(
-        `GnosisAuction-claimFromParticipantOrder()-${auctionID}: failed with error ${error}`
+        `${job} (${vaultName}): failed with ${formatFailure(
+          decodeFailure(error)
+        )}`,
+        "transaction",
+        "error"
       );
     }
   }
+
+  finishJob(chainId, job);
+
+  return outcomes;
 }
 
-async function runTX(
-  vaultArtifactAbi: any, // eslint-disable-line @typescript-eslint/no-explicit-any
-  provider: Provider,
-  signer: Wallet,
-  network: string,
-  method: string
-) {
-  for (
-    let vaultName = 0;
-    vaultName < deployments[network].vaults.length;
-    vaultName++
-  ) {
+// Gauges read from the chain on every scrape
+async function collectMetrics() {
+  setGauge(
+    "keeper_balance",
+    {},
+    Number(formatEther(await signer.getBalance()))
+  );
+
+  const { timestamp } = await provider.getBlock("latest");
+
+  for (const [vaultName, vaultDeployment] of Object.entries(
+    deployments.vaults
+  )) {
+    const flavour = await getVaultFlavour(provider, vaultDeployment.address);
+    const vaultArtifact = await hre.artifacts.readArtifact(
+      VAULT_ARTIFACTS[flavour]
+    );
     const vault = new ethers.Contract(
-      deployments[network].vaults[vaultName].address,
-      vaultArtifactAbi,
+      vaultDeployment.address,
+      vaultArtifact.abi,
       provider
     );
+    const { nextOption, nextOptionReadyAt } = await vault.optionState();
 
-    // If current option is not zero address, means
-    // someone already called new weeks rollToNextOption
-    if (
-      method === "rollToNextOption" &&
-      (await vault.currentOption()) !== constants.AddressZero
-    ) {
-      await log(`${method} (${vaultName}): skipped`);
-      continue; // eslint-disable-line no-continue
-    }
-
-    let newGasPrice = (await gas(network)).toString();
+    setGauge(
+      "keeper_vault_round",
+      { vault: vaultName },
+      (await vault.vaultState()).round
+    );
 
-    try {
-      const tx = await vault.connect(signer)[`${method}()`]({
-        gasPrice: newGasPrice,
-        gasLimit: gasLimits[method],
+    if (nextOption === constants.AddressZero) {
+      clearGauge("keeper_vault_next_option_ready_seconds", {
+        vault: vaultName,
       });
-      log(
-        `ThetaVault-${method}()-${vaultName}: <https://etherscan.io/tx/${tx.hash}>`
-      );
-      await tx.wait();
-    } catch (error) {
-      await log(
-        `ThetaVault-${method}()-${vaultName}: failed with error ${error}`
+    } else {
+      setGauge(
+        "keeper_vault_next_option_ready_seconds",
+        { vault: vaultName },
+        nextOptionReadyAt - timestamp
       );
     }
   }
 }
 
-async function strikeForecasting() {
+async function strikeForecasting(vaultNames?: string[]) {
   console.log("Forecasting strikes");
 
-  const vaultArtifact = await hre.artifacts.readArtifact("RibbonThetaVault");
   const strikeSelectionArtifact = await hre.artifacts.readArtifact(
     "StrikeSelection"
   );
-  const stethArtifact = await hre.artifacts.readArtifact("IWSTETH");
-  const yearnArtifact = await hre.artifacts.readArtifact("IYearnVault");
-  const iOtokenArtifact = await hre.artifacts.readArtifact("IOtoken");
   const ierc20Artifact = await hre.artifacts.readArtifact(
     "contracts/interfaces/IERC20Detailed.sol:IERC20Detailed"
   );
 
-  for (
-    let vaultName = 0;
-    vaultName < deployments[network].vaults.length;
-    vaultName++
-  ) {
+  for (const [vaultName, vaultDeployment] of getVaults(vaultNames)) {
+    const flavour = await getVaultFlavour(provider, vaultDeployment.address);
+    const vaultArtifact = await hre.artifacts.readArtifact(
+      VAULT_ARTIFACTS[flavour]
+    );
     const vault = new ethers.Contract(
-      deployments[network].vaults[vaultName].address,
+      vaultDeployment.address,
       vaultArtifact.abi,
       provider
     );
 
+    if (
+      flavour === "treasury" &&
+      !(await getTreasuryRound(provider, vault)).isDue
+    ) {
+      continue; // eslint-disable-line no-continue
+    }
+
     const strikeSelection = new ethers.Contract(
-      deployments[network].vaults[vaultName].strikeSelection,
+      await getStrikeSelectionAddress(vault, vaultDeployment),
       strikeSelectionArtifact.abi,
       provider
     );
 
     const optionsPremiumPricer = new ethers.Contract(
-      deployments[network].vaults[vaultName].optionsPremiumPricer,
+      await getOptionsPremiumPricerAddress(vault, vaultDeployment),
       OptionsPremiumPricer_ABI,
       provider
     );
@@ -544,17 +674,25 @@ async function strikeForecasting() {
 
     let [delta, strike, expiry, isPut] = await getStrikePrice(
       vault,
-      strikeSelection,
-      iOtokenArtifact.abi
+      strikeSelection
     );
 
-    let [deribitStrike, deribitDelta] = await getDeribitStrikePrice(
+    const vaultStrike = await getVaultStrike(
+      vault,
       strikeSelection,
-      optionsPremiumPricer,
-      vaultName.includes("BTC") ? "BTC" : "ETH",
-      isPut,
-      expiry
+      expiry,
+      isPut
     );
+    const quotes = await marketData
+      .getQuotes(
+        (
+          await getUnderlying(provider, vault.address, loadVolConfig())
+        ).asset,
+        isPut,
+        expiry
+      )
+      .catch(() => null);
+    const reference = quotes && getStrikeReference(vaultStrike, quotes);
 
     let optionPremium = await getOptionPremium(
       vault,
@@ -564,184 +702,986 @@ async function strikeForecasting() {
       isPut
     );
 
-    // Adjust for yearn / steth
-    if (vaultName.includes("yearn")) {
-      const collateralToken = new ethers.Contract(
-        await vault.collateralToken(),
-        yearnArtifact.abi,
-        provider
-      );
-      optionPremium = wmul(
-        optionPremium,
-        collateralToken.pricePerShare().mul(decimalShift(collateralToken))
-      );
-    } else if (vaultName.includes("steth")) {
-      const collateralToken = new ethers.Contract(
-        await vault.collateralToken(),
-        stethArtifact.abi,
-        provider
-      );
-      optionPremium = wmul(optionPremium, collateralToken.stEthPerToken());
-    }
+    // Adjust for yearn / steth collateral
+    optionPremium = await toCollateralPremium(
+      provider,
+      vault,
+      chainId,
+      optionPremium
+    );
 
     await log(
       `${vaultName}\nExpected strike price: $${strike.div(
         BigNumber.from(10).pow(8)
-      )} (${(delta / 10000).toFixed(
-        4
-      )} delta) \nDeribit strike price: $${deribitStrike} (${deribitDelta} delta) \nExpected premium: ${(
-        optionPremium /
-        10 ** 18
-      ).toFixed(8)} ${await asset.symbol()} \nExpected expiry: ${new Date(
+      )} (${(delta / 10000).toFixed(4)} delta) \nReference strike price (${
+        marketData.name
+      }): ${
+        reference ? `$${reference.strike}` : "n/a"
+      } \nMarket delta of the strike: ${
+        reference && reference.delta !== null
+          ? reference.delta.toFixed(4)
+          : "n/a"
+      } \nExpected premium: ${Number(formatUnits(optionPremium, 18)).toFixed(
+        8
+      )} ${await asset.symbol()} \nExpected expiry: ${new Date(
         expiry * 1000
-      ).toUTCString()}`
+      ).toUTCString()}`,
+      "report"
     );
   }
 }
 
-async function commitAndClose() {
-  console.log("Calling commitAndClose");
+/**
+ * Checks the vol oracle and Chainlink feeds each vault's premium pricer
+ * reads before a lifecycle step. Vaults failing a check are left out of
+ * the step and reported.
+ * @param step is the step checked for, as reported
+ * @return the vaults cleared for the step
+ */
+async function preflightVaults(step: string, vaultNames?: string[]) {
+  const config = loadPreflightConfig();
+  const volChecks = getVolChecks(chainId);
+  const now = Math.floor(Date.now() / 1000);
+  const cleared: string[] = [];
+
+  for (const [vaultName, vaultDeployment] of getVaults(vaultNames)) {
+    let errors: string[];
+    try {
+      errors = await getPreflightErrors(
+        provider,
+        vaultDeployment,
+        MANUAL_VOL_ORACLE[chainId],
+        volChecks,
+        getPreflightSettings(config, vaultName),
+        now
+      );
+    } catch (error) {
+      errors = [`checks failed with ${error.message}`];
+    }
 
-  const vaultArtifact = await hre.artifacts.readArtifact("RibbonThetaVault");
-  const otokenArtifact = await hre.artifacts.readArtifact("IOtoken");
+    if (errors.length === 0) {
+      cleared.push(vaultName);
+    } else {
+      await log(
+        `Preflight-${vaultName}: ${step} blocked, ${errors.join(", ")}`,
+        "report",
+        "error"
+      );
+    }
+  }
 
-  // 1. commitAndClose
-  await runTX(vaultArtifact.abi, provider, signer, network, "commitAndClose");
+  return cleared;
+}
 
-  await sleep(TX_SLEEP_TIME);
+/**
+ * Checks the strike each vault would commit to against the market data
+ * provider. Vaults off the reference by more than their tolerances are
+ * left out of the commit and escalated.
+ * @return the vaults cleared to commit
+ */
+async function guardStrikes(vaultNames?: string[]) {
+  const strikeSelectionArtifact = await hre.artifacts.readArtifact(
+    "StrikeSelection"
+  );
+  const cleared: string[] = [];
 
-  let msg = `${auctionParticipantTag} Strike prices have been selected. Auction begins at 11.15am UTC\n\n`;
+  for (const [vaultName, vaultDeployment] of getVaults(vaultNames)) {
+    try {
+      const flavour = await getVaultFlavour(provider, vaultDeployment.address);
+      const vaultArtifact = await hre.artifacts.readArtifact(
+        VAULT_ARTIFACTS[flavour]
+      );
+      const vault = new ethers.Contract(
+        vaultDeployment.address,
+        vaultArtifact.abi,
+        provider
+      );
 
-  for (
-    let vaultName = 0;
-    vaultName < deployments[network].vaults.length;
-    vaultName++
-  ) {
-    const vault = new ethers.Contract(
-      deployments[network].vaults[vaultName].address,
-      vaultArtifact.abi,
-      provider
-    );
-    const { nextOption } = await vault.optionState();
+      // Treasury vaults which are not due this week do not commit
+      if (
+        flavour === "treasury" &&
+        !(await getTreasuryRound(provider, vault)).isDue
+      ) {
+        cleared.push(vaultName);
+        continue; // eslint-disable-line no-continue
+      }
+
+      const strikeSelection = new ethers.Contract(
+        await getStrikeSelectionAddress(vault, vaultDeployment),
+        strikeSelectionArtifact.abi,
+        provider
+      );
+      const [, , expiry, isPut] = await getStrikePrice(vault, strikeSelection);
+      const vaultStrike = await getVaultStrike(
+        vault,
+        strikeSelection,
+        expiry,
+        isPut
+      );
+      const errors = await checkVaultStrike(
+        marketData,
+        vaultStrike,
+        (
+          await getUnderlying(provider, vault.address, loadVolConfig())
+        ).asset,
+        isPut,
+        expiry,
+        getStrikeGuardSettings(strikeGuardConfig, vaultName)
+      );
+
+      if (errors === null) {
+        await log(
+          `StrikeGuard-${vaultName}: no ${marketData.name} quotes for the option, strike ${vaultStrike.strike} left unchecked`,
+          "report",
+          "warning"
+        );
+      } else if (errors.length > 0) {
+        throw new Error(errors.join(", "));
+      }
+      cleared.push(vaultName);
+    } catch (error) {
+      await log(
+        `StrikeGuard-${vaultName}: commit refused, ${error.message}`,
+        "report",
+        "error"
+      );
+    }
+  }
+
+  return cleared;
+}
+
+/**
+ * Works out the strike of every vault on a ManualStrikeSelection from its
+ * model. Strikes are set on the next commit, once approved with
+ * approve-strikes when the config asks for approval.
+ */
+async function proposeManualStrikes(vaultNames?: string[]) {
+  const strikeSelectionArtifact = await hre.artifacts.readArtifact(
+    "StrikeSelection"
+  );
+  const config = loadManualStrikeConfig();
+  const volConfig = loadVolConfig();
+  const volSources = createVolSources(provider, chainId, volConfig);
+
+  for (const [vaultName, vaultDeployment] of getVaults(vaultNames)) {
+    try {
+      const flavour = await getVaultFlavour(provider, vaultDeployment.address);
+      const vaultArtifact = await hre.artifacts.readArtifact(
+        VAULT_ARTIFACTS[flavour]
+      );
+      const vault = new ethers.Contract(
+        vaultDeployment.address,
+        vaultArtifact.abi,
+        provider
+      );
+
+      if (
+        flavour === "treasury" &&
+        !(await getTreasuryRound(provider, vault)).isDue
+      ) {
+        continue; // eslint-disable-line no-continue
+      }
+
+      const strikeSelection = new ethers.Contract(
+        await getStrikeSelectionAddress(vault, vaultDeployment),
+        strikeSelectionArtifact.abi,
+        provider
+      );
+      const [, , expiry, isPut] = await getStrikePrice(vault, strikeSelection);
+      if (
+        (await getVaultStrike(vault, strikeSelection, expiry, isPut)).kind !==
+        "manual"
+      ) {
+        continue; // eslint-disable-line no-continue
+      }
+
+      const settings = getManualStrikeSettings(config, vaultName);
+      const { symbol, asset } = await getUnderlying(
+        provider,
+        vault.address,
+        loadVolConfig()
+      );
+      const now = Math.floor(Date.now() / 1000);
+
+      let inputs: ModelInputs | null = null;
+      if (settings.model === "delta") {
+        const feed = (volConfig.feeds[asset] || {})[chainId];
+        if (!feed) {
+          throw new Error(`no Chainlink feed for ${asset}`);
+        }
+        const { vol } = combineVols(
+          await getVolQuotes(volSources, asset),
+          volConfig
+        );
+        if (vol === null) {
+          throw new Error(`no vol quote for ${asset}`);
+        }
+        inputs = {
+          spot: await getChainlinkPrice(provider, feed),
+          vol,
+          years: (expiry - now) / YEAR,
+        };
+      }
+
+      const { strike, delta } = getModelStrike(
+        settings,
+        getStrikeStep([symbol, asset], settings),
+        isPut,
+        inputs
+      );
+
+      // Approving or rejecting a strike holds while the model agrees
+      const previous = getStrikeProposals(chainId)[vaultName];
+      let status: StrikeProposal["status"] = config.approval
+        ? "proposed"
+        : "approved";
+      if (
+        previous &&
+        previous.expiry === expiry &&
+        previous.strike === strike
+      ) {
+        status = previous.status;
+      }
+      setStrikeProposal(chainId, vaultName, {
+        expiry,
+        isPut,
+        strike,
+        delta,
+        status,
+        proposedAt: now,
+      });
+
+      await log(
+        `ManualStrike-${vaultName}: ${strike}${
+          delta === null ? "" : ` (${delta.toFixed(4)} delta)`
+        } for the ${new Date(expiry * 1000).toUTCString()} expiry, ${
+          status === "proposed"
+            ? `approve with \`npx hardhat approve-strikes approve --vaults ${vaultName}\``
+            : status
+        }`,
+        "report",
+        status === "proposed" ? "warning" : "info"
+      );
+    } catch (error) {
+      await log(
+        `ManualStrike-${vaultName}: no strike proposed, ${error.message}`,
+        "report",
+        "error"
+      );
+    }
+  }
+}
+
+/**
+ * Picks the keeper or the owner role signer, whichever owns the contract
+ * @return null when neither does
+ */
+async function getOwnerTxManager(contract: Contract) {
+  const owner: string = (await contract.owner()).toLowerCase();
+  if (owner === keeperAddress.toLowerCase()) {
+    return txManager;
+  }
+  if (ownerAddress && owner === ownerAddress.toLowerCase()) {
+    return ownerTxManager;
+  }
+  return null;
+}
+
+/**
+ * Sets the approved strikes on the vaults' ManualStrikeSelection before
+ * they commit. Vaults on a ManualStrikeSelection without an approved,
+ * submitted or rejected strike for the expiry they commit to, or whose
+ * strike failed to be set, stay out of the commit.
+ * @return the vaults cleared to commit
+ */
+async function submitManualStrikes(vaultNames?: string[]) {
+  const manualStrikeArtifact = await hre.artifacts.readArtifact(
+    "ManualStrikeSelection"
+  );
+  const proposals = getStrikeProposals(chainId);
+  const cleared: string[] = [];
+
+  for (const [vaultName, vaultDeployment] of getVaults(vaultNames)) {
+    try {
+      const flavour = await getVaultFlavour(provider, vaultDeployment.address);
+      const vaultArtifact = await hre.artifacts.readArtifact(
+        VAULT_ARTIFACTS[flavour]
+      );
+      const vault = new ethers.Contract(
+        vaultDeployment.address,
+        vaultArtifact.abi,
+        provider
+      );
+      const strikeSelection = new ethers.Contract(
+        await getStrikeSelectionAddress(vault, vaultDeployment),
+        manualStrikeArtifact.abi,
+        provider
+      );
+      const [, , expiry, isPut] = await getStrikePrice(vault, strikeSelection);
+
+      if (
+        (await getVaultStrike(vault, strikeSelection, expiry, isPut)).kind !==
+        "manual"
+      ) {
+        cleared.push(vaultName);
+        continue; // eslint-disable-line no-continue
+      }
+
+      // Proposals of other expiries are left over from earlier rounds
+      const proposal = proposals[vaultName];
+      if (!proposal || proposal.expiry !== expiry) {
+        await log(
+          `ManualStrike-${vaultName}: commit held, no strike proposed for the ${new Date(
+            expiry * 1000
+          ).toUTCString()} expiry`,
+          "report",
+          "error"
+        );
+        continue; // eslint-disable-line no-continue
+      }
+
+      // A rejected strike is left to the owner to set by hand
+      if (proposal.status === "rejected" || proposal.status === "submitted") {
+        cleared.push(vaultName);
+        continue; // eslint-disable-line no-continue
+      }
+
+      if (proposal.status === "proposed") {
+        await log(
+          `ManualStrike-${vaultName}: commit held, strike ${proposal.strike} awaits approve-strikes`,
+          "report",
+          "error"
+        );
+        continue; // eslint-disable-line no-continue
+      }
+
+      const strikePrice = parseUnits(proposal.strike.toFixed(8), 8);
+      if (!(await strikeSelection.strikePrice()).eq(strikePrice)) {
+        // setStrikePrice is onlyOwner
+        const ownerTxSender = await getOwnerTxManager(strikeSelection);
+        if (!ownerTxSender) {
+          await log(
+            `ManualStrikeSelection-setStrikePrice()-${vaultName}: commit held, the strike selection is owned by ${await strikeSelection.owner()}, neither the keeper nor the owner signer`,
+            "report",
+            "error"
+          );
+          continue; // eslint-disable-line no-continue
+        }
+
+        const tx = await ownerTxSender.send(
+          await strikeSelection.populateTransaction.setStrikePrice(strikePrice)
+        );
+        await tx.wait();
+        await log(
+          `ManualStrikeSelection-setStrikePrice()-${vaultName}: ${txLink(
+            keeperNetwork,
+            tx.hash
+          )} (${proposal.strike})`
+        );
+      }
+
+      setStrikeProposal(chainId, vaultName, {
+        ...proposal,
+        status: "submitted",
+      });
+      cleared.push(vaultName);
+    } catch (error) {
+      await log(
+        `ManualStrikeSelection-setStrikePrice()-${vaultName}: commit held, failed with ${formatFailure(
+          decodeFailure(error)
+        )}`,
+        "transaction",
+        "error"
+      );
+    }
+  }
+
+  return cleared;
+}
+
+async function commitAndClose(vaultNames?: string[]) {
+  console.log("Calling commitAndClose");
+
+  const otokenArtifact = await hre.artifacts.readArtifact("IOtoken");
+
+  // Vaults failing the preflight checks, whose manual strike is not set,
+  // or whose strike is off the market's stay out of the commit
+  const cleared = await guardStrikes(
+    await submitManualStrikes(
+      await preflightVaults("commitAndClose", vaultNames)
+    )
+  );
+
+  // 1. commitAndClose, or closeRound and commitNextOption for vaults selling through Swap
+  const outcomes = await advanceVaults("commitAndClose", COMMIT_STEPS, cleared);
+
+  let msg = `Strike prices have been selected.\n\n`;
+  let committed = 0;
+
+  for (const [vaultName, outcome] of Object.entries(outcomes)) {
+    // Vaults skipped or failed, and treasury vaults which are not due
+    // this week, selected no strike
+    if (!outcome.strikePrice || !outcome.oToken) {
+      continue; // eslint-disable-line no-continue
+    }
     const otoken = new ethers.Contract(
-      nextOption,
+      outcome.oToken,
       otokenArtifact.abi,
       provider
     );
-    const strikePriceStr = parseInt(formatUnits(await otoken.strikePrice(), 8));
+    const strikePriceStr = parseInt(formatUnits(outcome.strikePrice, 8));
     const dateStr = new Date(
       (await otoken.expiryTimestamp()).toNumber() * 1000
     );
     msg += `Strike price for ${vaultName}
-Strike Price: ${strikePriceStr.toLocaleString()}
-Expiry: ${dateStr.toUTCString()}\n\n`;
+Strike Price: ${strikePriceStr.toLocaleString()} (${formatUnits(
+      outcome.delta,
+      4
+    )} delta)
+Expiry: ${dateStr.toUTCString()}
+Auction begins: ${formatWeekMinute(vaultTimes[vaultName].roll)}\n\n`;
+    committed++;
+  }
+
+  if (committed > 0) {
+    await log(msg, "announcement");
+  }
+}
+
+/**
+ * Refreshes the min price of every auction vault's committed option right
+ * before it rolls. A vault whose price fails the sanity check keeps the
+ * premium it committed with.
+ */
+async function setMinPrices(vaultNames?: string[]) {
+  const gnosisArtifact = await hre.artifacts.readArtifact("IGnosisAuction");
+  const gnosisAuction = new ethers.Contract(
+    GNOSIS_EASY_AUCTION[chainId],
+    gnosisArtifact.abi,
+    provider
+  );
+  const minPriceConfig = loadMinPriceConfig();
+
+  for (const [vaultName, vaultDeployment] of getVaults(vaultNames)) {
+    const flavour = await getVaultFlavour(provider, vaultDeployment.address);
+    if (flavour !== "gnosis") {
+      continue; // eslint-disable-line no-continue
+    }
+
+    const vaultArtifact = await hre.artifacts.readArtifact(
+      VAULT_ARTIFACTS[flavour]
+    );
+    const vault = new ethers.Contract(
+      vaultDeployment.address,
+      vaultArtifact.abi,
+      provider
+    );
+    if ((await vault.optionState()).nextOption === constants.AddressZero) {
+      continue; // eslint-disable-line no-continue
+    }
+
+    try {
+      const { minPrice, lastClearingPrice } = await getMinPrice(
+        provider,
+        vault,
+        chainId,
+        await getOptionsPremiumPricerAddress(vault, vaultDeployment),
+        gnosisAuction,
+        getMinPriceSettings(minPriceConfig, vaultName)
+      );
+
+      const tx = await txManager.send(
+        await vault.populateTransaction.setMinPrice(minPrice)
+      );
+      await tx.wait();
+
+      await log(
+        `ThetaVault-setMinPrice()-${vaultName}: ${txLink(
+          keeperNetwork,
+          tx.hash
+        )} (${formatUnits(minPrice, 18)}, last cleared at ${
+          lastClearingPrice ? formatUnits(lastClearingPrice, 18) : "n/a"
+        })`
+      );
+    } catch (error) {
+      await log(
+        `ThetaVault-setMinPrice()-${vaultName}: failed with ${formatFailure(
+          decodeFailure(error)
+        )}`,
+        "transaction",
+        "error"
+      );
+    }
   }
+}
+
+/**
+ * Checks the option each vault committed to against the Chainlink price
+ * of its underlying before it rolls. Vaults whose option moved too close
+ * to the money, or whose underlying moved too much since the commit, are
+ * held back and escalated with a strike to set for a new commit.
+ * @return the vaults cleared to roll
+ */
+async function guardRolls(vaultNames?: string[]) {
+  const { feeds } = loadVolConfig();
+  const cleared: string[] = [];
+
+  for (const [vaultName, vaultDeployment] of getVaults(vaultNames)) {
+    try {
+      const flavour = await getVaultFlavour(provider, vaultDeployment.address);
+      const vaultArtifact = await hre.artifacts.readArtifact(
+        VAULT_ARTIFACTS[flavour]
+      );
+      const vault = new ethers.Contract(
+        vaultDeployment.address,
+        vaultArtifact.abi,
+        provider
+      );
+
+      // Nothing committed, the roll is skipped anyway
+      const { nextOption } = await vault.optionState();
+      if (nextOption === constants.AddressZero) {
+        cleared.push(vaultName);
+        continue; // eslint-disable-line no-continue
+      }
 
-  await log(msg);
+      const { asset } = await getUnderlying(
+        provider,
+        vault.address,
+        loadVolConfig()
+      );
+      const feed = (feeds[asset] || {})[chainId];
+      if (!feed) {
+        await log(
+          `RollGuard-${vaultName}: no Chainlink feed for ${asset}, strike left unchecked`,
+          "report",
+          "warning"
+        );
+        cleared.push(vaultName);
+        continue; // eslint-disable-line no-continue
+      }
+
+      const check = await readRollCheck(provider, vault, nextOption, feed);
+      const errors = getRollGuardErrors(
+        check,
+        getRollGuardSettings(rollGuardConfig, vaultName)
+      );
+      if (errors.length === 0) {
+        cleared.push(vaultName);
+        continue; // eslint-disable-line no-continue
+      }
+
+      const suggestedStrike = getSuggestedStrike(check);
+      await log(
+        `RollGuard-${vaultName}: roll held, ${errors.join(
+          ", "
+        )}. Suggested override: setStrikePrice(${parseUnits(
+          String(suggestedStrike),
+          8
+        )}) for a $${suggestedStrike} strike, then commitAndClose again`,
+        "report",
+        "error"
+      );
+    } catch (error) {
+      await log(
+        `RollGuard-${vaultName}: roll held, check failed with ${error.message}`,
+        "report",
+        "error"
+      );
+    }
+  }
+
+  return cleared;
 }
 
-async function rollToNextOption() {
+async function rollToNextOption(vaultNames?: string[]) {
   console.log("Calling rollToNextOption");
 
-  const vaultArtifact = await hre.artifacts.readArtifact("RibbonThetaVault");
-  const ierc20Artifact = await hre.artifacts.readArtifact(
-    "contracts/interfaces/IERC20Detailed.sol:IERC20Detailed"
-  );
+  // 2. Add the options about to be auctioned to the token list,
+  // publishing it is left to the publish-token-list task
+  if (process.env.TOKEN_LIST_DIR) {
+    try {
+      await updateTokenList(
+        provider,
+        chainId,
+        network,
+        Object.values(deployments.vaults).map(({ address }) => address),
+        process.env.TOKEN_LIST_DIR
+      );
+    } catch (error) {
+      await log(
+        `Token list update failed with error ${error}`,
+        "report",
+        "warning"
+      );
+    }
+  }
 
-  // 2. updateTokenList
-  await updateTokenList(
-    "ribbon.tokenlist.json",
-    vaultArtifact.abi,
-    ierc20Artifact.abi,
-    provider,
-    network
+  // Vaults failing the preflight checks, or whose option drifted towards
+  // the money since the commit, stay put
+  const cleared = await guardRolls(
+    await preflightVaults("rollToNextOption", vaultNames)
   );
 
-  // 3. rollToNextOption
-  await runTX(vaultArtifact.abi, provider, signer, network, "rollToNextOption");
+  // 3. setMinPrice
+  await setMinPrices(cleared);
 
-  await sleep(TX_SLEEP_TIME);
+  // 4. rollToNextOption
+  const outcomes = await advanceVaults("rollToNextOption", ROLL_STEPS, cleared);
 
   let msg = `Auctions have begun. Happy bidding!\n\n`;
+  let started = 0;
+
+  for (const [vaultName, outcome] of Object.entries(outcomes)) {
+    const size = outcome.minted
+      ? ` (${formatUnits(outcome.minted, 8)} oTokens)`
+      : "";
+    if (outcome.swapId) {
+      msg += `Offer for ${vaultName}: swap ID ${outcome.swapId}${size}\n`;
+    } else if (outcome.auctionID) {
+      msg += `Auction for ${vaultName}: ${auctionLink(
+        keeperNetwork,
+        outcome.auctionID.toNumber()
+      )}${size}\n`;
+    } else {
+      continue; // eslint-disable-line no-continue
+    }
+    started++;
+  }
 
-  for (
-    let vaultName = 0;
-    vaultName < deployments[network].vaults.length;
-    vaultName++
-  ) {
+  if (started > 0) {
+    await log(msg, "announcement");
+  }
+}
+
+async function settleAuctions(vaultNames?: string[]) {
+  console.log("Calling settleAuctions");
+
+  // 5. settleAuction, settleOffer or concludeOptionsSale and 6. burnRemainingOTokens
+  await advanceVaults("settleAuctions", SETTLE_STEPS, vaultNames);
+}
+
+/**
+ * Reports how every running auction is going: the price it would clear at
+ * now against its min price and the pricer's premium, and a warning when
+ * the bids would leave oTokens unsold.
+ */
+async function monitorAuctions() {
+  for (const [vaultName, vaultDeployment] of Object.entries(
+    deployments.vaults
+  )) {
+    const flavour = await getVaultFlavour(provider, vaultDeployment.address);
+    if (flavour !== "gnosis") {
+      continue; // eslint-disable-line no-continue
+    }
+
+    const vaultArtifact = await hre.artifacts.readArtifact(
+      VAULT_ARTIFACTS[flavour]
+    );
     const vault = new ethers.Contract(
-      deployments[network].vaults[vaultName].address,
+      vaultDeployment.address,
       vaultArtifact.abi,
       provider
     );
-    const optionAuctionID = parseInt(
-      (await vault.optionAuctionID()).toString()
-    );
-    msg += `Auction for ${vaultName}: <https://gnosis-auction.eth.link/#/auction?auctionId=${optionAuctionID}&chainId=1>\n`;
+
+    try {
+      const status = await getAuctionStatus(
+        provider,
+        GNOSIS_EASY_AUCTION[chainId],
+        vault
+      );
+      if (!status) {
+        continue; // eslint-disable-line no-continue
+      }
+
+      const label = `GnosisAuction-${vaultName}-(${status.auctionID})`;
+      const pricerPremium = await toCollateralPremium(
+        provider,
+        vault,
+        chainId,
+        await getDiscountedPremium(
+          provider,
+          vault,
+          await getOptionsPremiumPricerAddress(vault, vaultDeployment),
+          (
+            await vault.optionState()
+          ).currentOption
+        )
+      );
+      const vsPricer = pricerPremium.isZero()
+        ? "n/a"
+        : `${
+            status.price
+              .sub(pricerPremium)
+              .mul(10000)
+              .div(pricerPremium)
+              .toNumber() / 100
+          }%`;
+      const { timestamp } = await provider.getBlock("latest");
+      const { decimals } = await vault.vaultParams();
+
+      await log(
+        `${label}: ${status.fill}% filled by ${status.bids} bids from ${
+          status.bidders
+        } bidders (${formatUnits(
+          status.totalBids,
+          decimals
+        )} bid), clearing at ${formatUnits(
+          status.price,
+          18
+        )} against min ${formatUnits(
+          status.minPrice,
+          18
+        )} and pricer ${formatUnits(
+          pricerPremium,
+          18
+        )} (${vsPricer}), ${Math.max(
+          0,
+          Math.round((status.endsAt - timestamp) / 60)
+        )} minutes left ${auctionLink(
+          keeperNetwork,
+          status.auctionID.toNumber()
+        )}`,
+        "report"
+      );
+
+      if (status.fill < 100) {
+        await log(
+          `${label}: undersubscribed, would sell ${formatUnits(
+            status.sold,
+            8
+          )} of ${formatUnits(status.auctioned, 8)} options`,
+          "report",
+          "warning"
+        );
+      }
+    } catch (error) {
+      await log(
+        `GnosisAuction-${vaultName}: monitoring failed with error ${error}`,
+        "report",
+        "error"
+      );
+    }
   }
+}
 
-  await log(msg);
+/**
+ * Sets the price of the latest scheduled expiry in the Gamma and TD oracles
+ * through every Chainlink pricer. Pricers whose expiry price is already
+ * set are skipped, so the job can run again until every asset has one.
+ * @param expiryTime is the vaults' scheduled expiry the job runs from
+ */
+async function setExpiryPrices(expiryTime: WeekMinute) {
+  const { timestamp } = await provider.getBlock("latest");
+  const expiry = getLastWeekMinute(expiryTime, timestamp);
+
+  for (const pricer of getChainlinkPricers(chainId)) {
+    try {
+      const { asset, protocol, status, roundId, tx } =
+        await getExpiryPriceUpdate(provider, chainId, pricer, expiry);
+
+      if (status !== "ready") {
+        console.log(`ChainlinkPricer-${pricer}: ${status} for ${expiry}`);
+        if (status === "alreadySet") {
+          recordJobSuccess("setExpiryPrices", pricer);
+        }
+        continue; // eslint-disable-line no-continue
+      }
+
+      const sentTx = await txManager.send(tx);
+      await sentTx.wait();
+      recordJobSuccess("setExpiryPrices", pricer);
+
+      await log(
+        `ChainlinkPricer-setExpiryPriceInOracle()-${asset} (${protocol}, round ${roundId}): ${txLink(
+          keeperNetwork,
+          sentTx.hash
+        )}`
+      );
+    } catch (error) {
+      await log(
+        `ChainlinkPricer-setExpiryPriceInOracle()-${pricer}: failed with ${formatFailure(
+          decodeFailure(error)
+        )}`,
+        "transaction",
+        "error"
+      );
+    }
+  }
 }
 
-async function settleAuctions() {
-  console.log("Calling settleAuctions");
+// The keeper wallet, the network's namedAccounts.keeper and configured relayers
+function getWatchedAccounts(extraAccounts: string[]) {
+  const { keeper } = hre.config.namedAccounts;
+  const namedKeeper = typeof keeper === "object" ? keeper[chainId] : null;
+
+  return [
+    ...new Set(
+      [keeperAddress, namedKeeper, ...extraAccounts]
+        .filter((account) => typeof account === "string")
+        .map((account) => ethers.utils.getAddress(account as string))
+    ),
+  ];
+}
 
-  const vaultArtifact = await hre.artifacts.readArtifact("RibbonThetaVault");
-  const gnosisArtifact = await hre.artifacts.readArtifact("IGnosisAuction");
-  const ierc20Artifact = await hre.artifacts.readArtifact(
-    "contracts/interfaces/IERC20Detailed.sol:IERC20Detailed"
-  );
+/**
+ * Alerts on keeper and relayer balances which would not last the next
+ * cycles at current fees, and tops them up when a funding wallet is set
+ */
+async function monitorBalances() {
+  const config = loadBalanceConfig(network);
+  if (!config) {
+    return;
+  }
 
-  const gnosisAuction = new ethers.Contract(
-    GNOSIS_EASY_AUCTION,
-    gnosisArtifact.abi,
-    provider
-  );
+  const cycleCost = getCycleCost(chainId, await getFeeData(network, provider));
 
-  // 4. settleAuction and 5. burnRemainingOTokens
-  await settleAndBurn(
-    gnosisAuction,
-    vaultArtifact.abi,
-    ierc20Artifact.abi,
+  for (const { account, balance, threshold, topUp } of await getNativeBalances(
     provider,
-    signer,
-    network
-  );
+    getWatchedAccounts(config.accounts),
+    cycleCost,
+    config
+  )) {
+    if (topUp.isZero()) {
+      continue; // eslint-disable-line no-continue
+    }
+
+    await log(
+      `Balance-${account}: ${formatEther(balance)} left, below ${formatEther(
+        threshold
+      )} (${formatEther(cycleCost)} per cycle)`,
+      "report",
+      "warning"
+    );
+
+    if (!fundingTxManager) {
+      continue; // eslint-disable-line no-continue
+    }
+
+    try {
+      const tx = await fundingTxManager.send({ to: account, value: topUp });
+      await tx.wait();
+      await log(
+        `Balance-topUp()-${account}: sent ${formatEther(topUp)} ${txLink(
+          keeperNetwork,
+          tx.hash
+        )}`
+      );
+    } catch (error) {
+      await log(
+        `Balance-topUp()-${account}: failed with ${formatFailure(
+          decodeFailure(error)
+        )}`,
+        "transaction",
+        "error"
+      );
+    }
+  }
+
+  for (const {
+    name,
+    holder,
+    balance,
+    decimals,
+    min,
+    isLow,
+  } of await getTokenBalances(provider, config)) {
+    if (isLow) {
+      await log(
+        `Balance-${name}-${holder}: ${formatUnits(
+          balance,
+          decimals
+        )} left, below ${min}`,
+        "report",
+        "warning"
+      );
+    }
+  }
 }
 
 async function updateManualVol() {
+  if (!MANUAL_VOL_ORACLE[chainId]) {
+    return;
+  }
   console.log("Updating ManualVolOracle");
 
-  const volOracle = new ethers.Contract(
-    MANUAL_VOL_ORACLE["1"],
-    ManualVolOracle_ABI,
-    provider
+  const config = loadVolConfig();
+  const oracleAddress = MANUAL_VOL_ORACLE[chainId];
+  const updates = await getVolUpdates(
+    provider,
+    oracleAddress,
+    await getVolTargets(provider, deployments.vaults, oracleAddress, config),
+    createVolSources(provider, chainId, config),
+    config
   );
 
-  // 1 second resolution
-  let dvolBTC = await getAnnualizedVol("BTC", 1);
-  let dvolETH = await getAnnualizedVol("ETH", 1);
+  const formatQuotes = (quotes: VolQuote[]) =>
+    quotes
+      .map(({ source, vol }) => `${source} ${(vol * 100).toFixed(2)}%`)
+      .join(", ");
 
-  for (
-    let univ3poolName = 0;
-    univ3poolName < deployments[network].univ3pools.length;
-    univ3poolName++
-  ) {
-    let newGasPrice = (await gas(network)).toString();
-    const tx = await volOracle
-      .connect(signer)
-      .setAnnualizedVol(
-        deployments[network].univ3pools[univ3poolName],
-        univ3poolName.includes("btc") ? dvolBTC : dvolETH,
-        {
-          gasPrice: newGasPrice,
-          gasLimit: gasLimits.volOracleAnnualizedVol,
-        }
+  for (const update of updates) {
+    const label = `ManualVolOracle-${update.asset}-(${update.name})`;
+
+    for (const { source, error } of update.quotes) {
+      if (error) {
+        await log(`${label}: ${source} failed, ${error}`, "report", "warning");
+      }
+    }
+    if (update.rejected.length > 0) {
+      await log(
+        `${label}: rejected ${formatQuotes(update.rejected)}`,
+        "report",
+        "warning"
+      );
+    }
+
+    if (update.status === "noQuote") {
+      await log(
+        `${label}: no vol quote, keeping ${formatVol(update.current)}`,
+        "report",
+        "error"
       );
+    } else if (update.status === "outOfBounds") {
+      await log(
+        `${label}: ${formatVol(update.next)} from ${formatQuotes(
+          update.used
+        )} is outside the oracle's 50% to 400%, keeping ${formatVol(
+          update.current
+        )}`,
+        "report",
+        "error"
+      );
+    } else {
+      await log(
+        `${label}: ${formatVol(update.current)} -> ${formatVol(
+          update.next
+        )} from ${formatQuotes(update.used)}${
+          update.status === "unchanged" ? ", below the deviation threshold" : ""
+        }`,
+        "report"
+      );
+    }
+  }
+
+  const populatedTx = await populateVolUpdates(oracleAddress, updates);
+  if (populatedTx) {
+    const tx = await txManager.send(populatedTx);
+    await tx.wait();
     await log(
-      `VolOracle-setAnnualizedVol()-(${univ3poolName}): <https://etherscan.io/tx/${tx.hash}>`
+      `ManualVolOracle-setAnnualizedVol(): ${txLink(keeperNetwork, tx.hash)}`
     );
   }
+
+  // Vols just written or close enough to their quotes count as fresh for
+  // the preflight checks
+  recordVolChecks(
+    chainId,
+    updates
+      .filter(({ status }) => status === "update" || status === "unchanged")
+      .map(({ optionId }) => optionId)
+  );
 }
 
 async function updateVolatility() {
@@ -753,94 +1693,232 @@ async function updateVolatility() {
     provider
   );
 
-  for (
-    let univ3poolName = 0;
-    univ3poolName < deployments[network].univ3pools.length;
-    univ3poolName++
-  ) {
-    let newGasPrice = (await gas(network)).toString();
-    const tx = await volOracle
-      .connect(signer)
-      .commit(deployments[network].univ3pools[univ3poolName], {
-        gasPrice: newGasPrice,
-        gasLimit: gasLimits.volOracleCommit,
-      });
+  for (const [univ3poolName, univ3pool] of Object.entries(
+    deployments.univ3pools
+  )) {
+    const tx = await txManager.send(
+      await volOracle.populateTransaction.commit(univ3pool)
+    );
+    await tx.wait();
     await log(
-      `VolOracle-commit()-(${univ3poolName}): <https://etherscan.io/tx/${tx.hash}>`
+      `VolOracle-commit()-(${univ3poolName}): ${txLink(keeperNetwork, tx.hash)}`
     );
   }
 }
 
-async function run() {
-  client.on("ready", () => {
-    console.log(`Logged in as ${client.user.tag}!`);
-    client.user.setPresence({
-      activity: {
-        name: "vault status",
-        type: "WATCHING",
-      },
-      status: "idle",
-    });
-  });
-
-  client.login(process.env.DISCORD_TOKEN);
+// Jobs keyed by the name advanceVaults records them under
+const RESUMABLE_JOBS: Record<string, () => Promise<void>> = {
+  commitAndClose,
+  rollToNextOption,
+  settleAuctions,
+};
 
-  //Atlantic/Reykjavik corresponds to UTC
-  const COMMIT_START = 10; // 10 am UTC
-  const COMMIT_AND_CLOSE_MINUTE_SHIFT = 45; // 45 minutes
-  const NETWORK_CONGESTION_BUFFER = 5; // 5 minutes
-  const STRIKE_FORECAST_HOURS_IN_ADVANCE = 1; // 1 hours in advance
-  const AUCTION_LIFE_TIME_DELAY = 1; // 1 hours
-  const VOL_PERIOD = 12 * 3600; // 12 hours
-
-  const futureStrikeForecasting = new CronJob(
-    // 0 0 9 * * 5 = 9:45am UTC on Fridays.
-    `0 ${COMMIT_AND_CLOSE_MINUTE_SHIFT} ${
-      COMMIT_START - STRIKE_FORECAST_HOURS_IN_ADVANCE
-    } * * 5`,
-    async function () {
-      await log(
-        `\n=============================================================================`
+async function resumeJobs() {
+  for (const job of Object.keys(getProgress(chainId).jobs)) {
+    await log(
+      `Resuming ${job} interrupted on the previous run`,
+      "report",
+      "warning"
+    );
+    await RESUMABLE_JOBS[job]();
+  }
+}
+
+async function initSigners() {
+  signer = await getRoleSigner("keeper", network, provider);
+  keeperAddress = await signer.getAddress();
+  txManager = createTxManager(signer, keeperNetwork, true);
+
+  try {
+    const ownerSigner = await getRoleSigner("owner", network, provider);
+    ownerAddress = await ownerSigner.getAddress();
+    ownerTxManager = createTxManager(ownerSigner, keeperNetwork);
+  } catch (error) {
+    console.log(`No owner signer, owner-only calls are held: ${error.message}`);
+  }
+
+  if (process.env.KEEPER_FUNDING_KEY) {
+    fundingTxManager = createTxManager(
+      await createSigner(
+        { type: "privateKey", keyEnv: "KEEPER_FUNDING_KEY" },
+        network,
+        provider
+      ),
+      keeperNetwork
+    );
+  }
+}
+
+/**
+ * Checks the schedule config against the vaults before any job runs and
+ * works out when each vault's steps run. Settlements follow the vault's
+ * auctionDuration as read now, a later setAuctionDuration needs a restart.
+ */
+async function checkSchedule() {
+  const errors = getScheduleErrors(
+    scheduleConfig,
+    Object.keys(deployments.vaults)
+  );
+  const otokenArtifact = await hre.artifacts.readArtifact("IOtoken");
+
+  for (const [vaultName, vaultDeployment] of getVaults()) {
+    const schedule = getVaultSchedule(scheduleConfig, vaultName);
+    const flavour = await getVaultFlavour(provider, vaultDeployment.address);
+    const vaultArtifact = await hre.artifacts.readArtifact(
+      VAULT_ARTIFACTS[flavour]
+    );
+    const vault = new ethers.Contract(
+      vaultDeployment.address,
+      vaultArtifact.abi,
+      provider
+    );
+
+    const delay = (await vault.DELAY()).toNumber();
+    if (schedule.rollDelay * 60 < delay) {
+      errors.push(
+        `${vaultName}: rollDelay ${schedule.rollDelay} is shorter than the vault's ${delay}s DELAY`
       );
-      await updateManualVol();
-      await strikeForecasting();
-    },
-    null,
-    false,
-    "Atlantic/Reykjavik"
+    }
+
+    const { currentOption } = await vault.optionState();
+    if (currentOption !== constants.AddressZero) {
+      const otoken = new ethers.Contract(
+        currentOption,
+        otokenArtifact.abi,
+        provider
+      );
+      const expiry = (await otoken.expiryTimestamp()).toNumber();
+      if (!isScheduledExpiry(schedule, expiry)) {
+        errors.push(
+          `${vaultName}: current option expires ${new Date(
+            expiry * 1000
+          ).toUTCString()}, off the scheduled weekday and hour`
+        );
+      }
+    }
+
+    vaultTimes[vaultName] = getVaultTimes(
+      schedule,
+      flavour === "swap"
+        ? schedule.offerDuration * 60
+        : (await vault.auctionDuration()).toNumber()
+    );
+  }
+
+  if (errors.length > 0) {
+    throw new Error(`Invalid keeper schedule:\n${errors.join("\n")}`);
+  }
+
+  await log(
+    `Keeper schedule:\n${Object.entries(vaultTimes)
+      .map(
+        ([vaultName, { commit, roll, settle }]) =>
+          `${vaultName}: commit ${formatWeekMinute(
+            commit
+          )}, roll ${formatWeekMinute(roll)}, settle ${formatWeekMinute(
+            settle
+          )}`
+      )
+      .join("\n")}`,
+    "report"
   );
+}
 
-  const commitAndCloseJob = new CronJob(
-    // 0 45 10 * * 5 = 10:45am UTC on Fridays.
-    `0 ${COMMIT_AND_CLOSE_MINUTE_SHIFT} ${COMMIT_START} * * 5`,
-    async function () {
-      await commitAndClose();
+async function run() {
+  await initSigners();
+  await checkSchedule();
+
+  // A job is stale once a few of its runs in a row failed, or a day past
+  // its week for the weekly ones
+  startMetricsServer(
+    Number(process.env.KEEPER_METRICS_PORT || 9102),
+    process.env.KEEPER_METRICS_HOST || "127.0.0.1",
+    {
+      monitorAuctions: 30 * 60,
+      monitorBalances: 3 * HOUR,
+      updateVolatility: 3 * scheduleConfig.volPeriodHours * HOUR,
+      strikeForecasting: 8 * DAY,
+      commitAndClose: 8 * DAY,
+      rollToNextOption: 8 * DAY,
+      // Recorded per vault by advanceVaults
+      settleAuctions: 8 * DAY,
+      // Recorded per pricer
+      setExpiryPrices: 8 * DAY,
     },
-    null,
-    false,
-    "Atlantic/Reykjavik"
+    collectMetrics
   );
 
-  const rollToNextOptionJob = new CronJob(
-    `0 ${NETWORK_CONGESTION_BUFFER} ${COMMIT_START + 1} * * 5`,
+  // Pick up a job the keeper crashed in the middle of
+  await resumeJobs();
+
+  const EXPIRY_PRICE_RETRY_MINUTES = 15; // 15 minutes
+  const EXPIRY_PRICE_RETRIES = 8; // for 2 hours
+  const AUCTION_MONITOR_MINUTES = 10; // 10 minutes
+  const VOL_PERIOD = scheduleConfig.volPeriodHours * 3600;
+
+  //Atlantic/Reykjavik corresponds to UTC
+  const createJob = (cronTime: string, onTick: () => Promise<void>) =>
+    new CronJob(cronTime, onTick, null, false, "Atlantic/Reykjavik");
+
+  // One job per time a step runs at, taking the vaults scheduled then
+  const createStepJobs = (
+    step: keyof VaultTimes,
+    onTick: (vaultNames: string[]) => Promise<void> // eslint-disable-line no-unused-vars
+  ) =>
+    [...groupByTime(vaultTimes, step)].map(([time, vaultNames]) =>
+      createJob(toCronTime(time), async function () {
+        await onTick(vaultNames);
+      })
+    );
+
+  const balanceJob = createJob(
+    // 0 30 * * * * = every hour at half past.
+    "0 30 * * * *",
     async function () {
-      await rollToNextOption();
-    },
-    null,
-    false,
-    "Atlantic/Reykjavik"
+      await monitorBalances();
+      recordJobSuccess("monitorBalances", "all");
+    }
+  );
+
+  // Every 15 minutes for 2 hours from each expiry. Later runs retry
+  // pricers whose Chainlink round was not reported yet
+  const expiryPriceJobs = [...groupByTime(vaultTimes, "expiry").keys()].flatMap(
+    (expiry) =>
+      [...Array(EXPIRY_PRICE_RETRIES).keys()].map((retry) =>
+        createJob(
+          toCronTime(addMinutes(expiry, retry * EXPIRY_PRICE_RETRY_MINUTES)),
+          async function () {
+            await setExpiryPrices(expiry);
+          }
+        )
+      )
   );
 
-  let settleAuctionJob = new CronJob(
-    `0 ${NETWORK_CONGESTION_BUFFER} ${
-      COMMIT_START + AUCTION_LIFE_TIME_DELAY + 1
-    } * * 5`,
+  const strikeForecastingJobs = createStepJobs(
+    "forecast",
+    async function (vaultNames) {
+      await log(
+        `\n=============================================================================`,
+        "report"
+      );
+      await updateManualVol();
+      await strikeForecasting(vaultNames);
+      await proposeManualStrikes(vaultNames);
+      recordJobSuccess("strikeForecasting", "all");
+    }
+  );
+
+  const commitAndCloseJobs = createStepJobs("commit", commitAndClose);
+  const rollToNextOptionJobs = createStepJobs("roll", rollToNextOption);
+  const settleAuctionJobs = createStepJobs("settle", settleAuctions);
+
+  // Auctions not running are skipped, whatever their vault's schedule
+  const auctionMonitorJob = createJob(
+    `0 */${AUCTION_MONITOR_MINUTES} * * * *`,
     async function () {
-      await settleAuctions();
-    },
-    null,
-    false,
-    "Atlantic/Reykjavik"
+      await monitorAuctions();
+      recordJobSuccess("monitorAuctions", "all");
+    }
   );
 
   const VOL_ORACLE_CRON = `0 0 */${BigNumber.from(VOL_PERIOD)
@@ -856,6 +1934,7 @@ async function run() {
         VOL_ORACLE_CRON,
         async function () {
           await updateVolatility();
+          recordJobSuccess("updateVolatility", "all");
         },
         null,
         false,
@@ -869,10 +1948,15 @@ async function run() {
     "Atlantic/Reykjavik"
   );
 
-  futureStrikeForecasting.start();
-  commitAndCloseJob.start();
-  rollToNextOptionJob.start();
-  settleAuctionJob.start();
+  [
+    balanceJob,
+    ...expiryPriceJobs,
+    ...strikeForecastingJobs,
+    ...commitAndCloseJobs,
+    ...rollToNextOptionJobs,
+    auctionMonitorJob,
+    ...settleAuctionJobs,
+  ].forEach((job) => job.start());
 
   // Not commit()'ing for now
   // updateVolatilityJob.start();
@@ -0,0 +1,69 @@
+import { CHAINID } from "../../constants/constants";
+import {
+  StrikeProposal,
+  getStrikeProposals,
+  setStrikeProposal,
+} from "../keeper/progress";
+
+require("dotenv").config();
+
+type ApproveStrikesAction = "list" | "approve" | "reject";
+
+interface ApproveStrikesArgs {
+  action: ApproveStrikesAction;
+  vaults?: string;
+  chainid?: string;
+}
+
+const formatProposal = (vaultName: string, proposal: StrikeProposal) =>
+  `${vaultName}: ${proposal.isPut ? "put" : "call"} strike ${proposal.strike}${
+    proposal.delta === null ? "" : ` (${proposal.delta.toFixed(4)} delta)`
+  } for the ${new Date(proposal.expiry * 1000).toUTCString()} expiry, ${
+    proposal.status
+  }`;
+
+/**
+ * Lists, approves or rejects the strikes the keeper proposed for the
+ * vaults on a ManualStrikeSelection. Approved strikes are set on the next
+ * commit, vaults with a rejected strike commit with the one set by hand.
+ * Reads the keeper's progress directory, so it runs where the keeper does.
+ */
+const main = async ({ action, vaults, chainid }: ApproveStrikesArgs) => {
+  const chainId = Number(chainid || process.env.CHAINID || CHAINID.ETH_MAINNET);
+  const proposals = getStrikeProposals(chainId);
+
+  if (!["list", "approve", "reject"].includes(action)) {
+    throw new Error(`Unknown action ${action}`);
+  }
+
+  if (action === "list") {
+    Object.entries(proposals).forEach(([vaultName, proposal]) =>
+      console.log(formatProposal(vaultName, proposal))
+    );
+    return;
+  }
+
+  const vaultNames = vaults
+    ? vaults.split(",")
+    : Object.keys(proposals).filter(
+        (vaultName) => proposals[vaultName].status === "proposed"
+      );
+  const unknown = vaultNames.filter(
+    (vaultName) =>
+      !proposals[vaultName] || proposals[vaultName].status !== "proposed"
+  );
+  if (unknown.length > 0) {
+    throw new Error(`No strike awaiting approval for ${unknown.join(", ")}`);
+  }
+
+  for (const vaultName of vaultNames) {
+    const proposal: StrikeProposal = {
+      ...proposals[vaultName],
+      status: action === "approve" ? "approved" : "rejected",
+    };
+    setStrikeProposal(chainId, vaultName, proposal);
+    console.log(formatProposal(vaultName, proposal));
+  }
+};
+
+export default main;
@@ -0,0 +1,287 @@
+import { BigNumber, Contract, Signer, ethers } from "ethers";
+import { HardhatRuntimeEnvironment } from "hardhat/types";
+import { GNOSIS_EASY_AUCTION } from "../../constants/constants";
+import { createSigner } from "../helpers/signers";
+import {
+  QUEUE_START,
+  decodeOrder,
+  easyAuctionInterface,
+  findBlockAt,
+  getAuctionFee,
+  getBid,
+  getBidError,
+  getOpenOrders,
+  getOrderPrice,
+} from "../helpers/easyAuction";
+import {
+  KeeperNetwork,
+  auctionLink,
+  getKeeperNetwork,
+  getNetworkDeployments,
+  getVaultAddress,
+  txLink,
+} from "../keeper/networks";
+
+require("dotenv").config();
+
+const { formatUnits, parseUnits } = ethers.utils;
+
+const vaultInterface = new ethers.utils.Interface([
+  "function optionAuctionID() view returns (uint256)",
+  "function auctionDuration() view returns (uint256)",
+]);
+
+const erc20Interface = new ethers.utils.Interface([
+  "function decimals() view returns (uint8)",
+  "function symbol() view returns (string)",
+  "function allowance(address owner, address spender) view returns (uint256)",
+  "function approve(address spender, uint256 amount) returns (bool)",
+]);
+
+type AuctionAction = "place" | "list" | "cancel";
+
+interface AuctionOrdersArgs {
+  action: AuctionAction;
+  vault: string;
+  price?: string;
+  premium?: string;
+  options?: string;
+  orders?: string;
+  from?: string;
+}
+
+interface Auction {
+  keeperNetwork: KeeperNetwork;
+  gnosisAuction: Contract;
+  auctionID: BigNumber;
+  // Auction start, approximated with the vault's current auction duration
+  startedAt: number;
+  auctionData: ethers.utils.Result;
+  biddingToken: Contract;
+  decimals: number;
+  symbol: string;
+}
+
+const getSigner = async (
+  hre: HardhatRuntimeEnvironment,
+  from?: string
+): Promise<Signer> =>
+  from
+    ? createSigner(
+        { type: "impersonate", address: from },
+        hre.network.name,
+        hre.ethers.provider
+      )
+    : (await hre.ethers.getSigners())[0];
+
+async function getAuction(
+  hre: HardhatRuntimeEnvironment,
+  vaultName: string,
+  signer: Signer
+): Promise<Auction> {
+  const keeperNetwork = getKeeperNetwork(hre.network.config.chainId);
+  const vault = new Contract(
+    getVaultAddress(getNetworkDeployments(keeperNetwork), vaultName),
+    vaultInterface,
+    signer
+  );
+  const gnosisAuction = new Contract(
+    GNOSIS_EASY_AUCTION[keeperNetwork.chainId],
+    easyAuctionInterface,
+    signer
+  );
+
+  const auctionID: BigNumber = await vault.optionAuctionID();
+  const auctionData = await gnosisAuction.auctionData(auctionID);
+  if (auctionData.auctioningToken === ethers.constants.AddressZero) {
+    throw new Error(`${vaultName} has no auction running`);
+  }
+  const biddingToken = new Contract(
+    auctionData.biddingToken,
+    erc20Interface,
+    signer
+  );
+
+  return {
+    keeperNetwork,
+    gnosisAuction,
+    auctionID,
+    startedAt: auctionData.auctionEndDate
+      .sub(await vault.auctionDuration())
+      .toNumber(),
+    auctionData,
+    biddingToken,
+    decimals: await biddingToken.decimals(),
+    symbol: await biddingToken.symbol(),
+  };
+}
+
+const formatOrder = (auction: Auction, orderID: string) => {
+  const order = decodeOrder(orderID);
+  return `${orderID}: ${formatUnits(
+    order.buyAmount,
+    8
+  )} options at ${formatUnits(getOrderPrice(order), auction.decimals)} ${
+    auction.symbol
+  }, ${formatUnits(order.sellAmount, auction.decimals)} ${
+    auction.symbol
+  } in total`;
+};
+
+const getAccountOrders = async (auction: Auction, userId: BigNumber) =>
+  getOpenOrders(
+    auction.gnosisAuction,
+    auction.auctionID,
+    await findBlockAt(auction.gnosisAuction.provider, auction.startedAt),
+    userId
+  );
+
+async function placeOrder(
+  auction: Auction,
+  signer: Signer,
+  { price, premium, options }: AuctionOrdersArgs
+) {
+  const { gnosisAuction, auctionID, auctionData, biddingToken } = auction;
+  const initialAuctionOrder = decodeOrder(auctionData.initialAuctionOrder);
+  const bid = getBid(initialAuctionOrder.sellAmount, {
+    price: price ? parseUnits(price, auction.decimals) : null,
+    premium: premium ? parseUnits(premium, auction.decimals) : null,
+    options: options ? parseUnits(options, 8) : null,
+  });
+
+  const bidError = getBidError(
+    bid,
+    initialAuctionOrder,
+    auctionData.minimumBiddingAmountPerOrder
+  );
+  if (bidError) {
+    throw new Error(`Auction ${auctionID} would reject the bid: ${bidError}`);
+  }
+
+  const bidder = await signer.getAddress();
+  if (
+    (await biddingToken.allowance(bidder, gnosisAuction.address)).lt(
+      bid.premium
+    )
+  ) {
+    const tx = await biddingToken.approve(gnosisAuction.address, bid.premium);
+    await tx.wait();
+    console.log(
+      `${auction.symbol}-approve(): ${txLink(auction.keeperNetwork, tx.hash)}`
+    );
+  }
+
+  const tx = await gnosisAuction.placeSellOrders(
+    auctionID,
+    [bid.options],
+    [bid.premium],
+    [QUEUE_START],
+    "0x"
+  );
+  await tx.wait();
+  console.log(
+    `GnosisAuction-placeSellOrders()-${auctionID}: ${txLink(
+      auction.keeperNetwork,
+      tx.hash
+    )}`
+  );
+}
+
+async function cancelOrders(
+  auction: Auction,
+  openOrders: string[],
+  orders?: string
+) {
+  const { gnosisAuction, auctionID, auctionData } = auction;
+  const { timestamp } = await gnosisAuction.provider.getBlock("latest");
+  if (timestamp >= auctionData.orderCancellationEndDate.toNumber()) {
+    throw new Error(
+      `Orders of auction ${auctionID} can no longer be cancelled`
+    );
+  }
+
+  const cancelled = orders
+    ? orders.split(",").map((order) => order.trim())
+    : openOrders;
+  const unknown = cancelled.filter((order) => !openOrders.includes(order));
+  if (unknown.length > 0) {
+    throw new Error(`No open orders ${unknown.join(", ")}`);
+  }
+  if (cancelled.length === 0) {
+    console.log("No orders to cancel");
+    return;
+  }
+
+  const tx = await gnosisAuction.cancelSellOrders(auctionID, cancelled);
+  await tx.wait();
+  console.log(
+    `GnosisAuction-cancelSellOrders()-${auctionID}: ${txLink(
+      auction.keeperNetwork,
+      tx.hash
+    )}`
+  );
+}
+
+/**
+ * Places, lists or cancels the signer's orders in the Gnosis auction a vault
+ * is running. Runs against the network given to Hardhat, with its first
+ * account or, on a Hardhat fork, any account impersonated with --from.
+ * Bids are priced per option or as a total premium in the bidding token.
+ */
+const main = async (
+  args: AuctionOrdersArgs,
+  hre: HardhatRuntimeEnvironment
+) => {
+  const signer = await getSigner(hre, args.from);
+  const auction = await getAuction(hre, args.vault, signer);
+  const { auctionID, auctionData, gnosisAuction } = auction;
+
+  const initialAuctionOrder = decodeOrder(auctionData.initialAuctionOrder);
+  const fee = getAuctionFee(
+    initialAuctionOrder.sellAmount,
+    auctionData.feeNumerator,
+    await gnosisAuction.FEE_DENOMINATOR()
+  );
+  console.log(
+    `Auction ${auctionID} ${auctionLink(
+      auction.keeperNetwork,
+      auctionID.toNumber()
+    )}: ${formatUnits(
+      initialAuctionOrder.sellAmount,
+      8
+    )} options for at least ${formatUnits(
+      initialAuctionOrder.buyAmount,
+      auction.decimals
+    )} ${auction.symbol}, ${formatUnits(
+      fee,
+      8
+    )} more as fees, ending ${new Date(
+      auctionData.auctionEndDate.toNumber() * 1000
+    ).toUTCString()}`
+  );
+
+  if (!["place", "list", "cancel"].includes(args.action)) {
+    throw new Error(`Unknown action ${args.action}`);
+  }
+  if (args.action === "place") {
+    await placeOrder(auction, signer, args);
+  }
+
+  // Static call, getUserId registers the accounts it does not know
+  const userId = await gnosisAuction.callStatic.getUserId(
+    await signer.getAddress()
+  );
+  const openOrders = await getAccountOrders(auction, userId);
+
+  if (args.action === "cancel") {
+    await cancelOrders(auction, openOrders, args.orders);
+    return;
+  }
+
+  console.log(`Open orders of user ${userId}:`);
+  openOrders.forEach((order) =>
+    console.log(`  ${formatOrder(auction, order)}`)
+  );
+};
+
+export default main;
@@ -0,0 +1,508 @@
+import { Contract, Signer, ethers } from "ethers";
+import { HardhatRuntimeEnvironment } from "hardhat/types";
+import {
+  BYTES_ZERO,
+  CHAINID,
+  GNOSIS_EASY_AUCTION,
+  MANUAL_VOL_ORACLE,
+} from "../../constants/constants";
+import { getDefaultProvider } from "../helpers/getDefaultEthersProvider";
+import { createSigner, getRoleSigner } from "../helpers/signers";
+import {
+  VaultDeployment,
+  getKeeperNetwork,
+  getNetworkDeployments,
+  getOptionsPremiumPricerAddress,
+  getStrikeSelectionAddress,
+} from "../keeper/networks";
+import {
+  VAULT_ARTIFACTS,
+  VaultFlavour,
+  getVaultFlavour,
+} from "../keeper/vaults";
+import {
+  VaultStep,
+  getCommitExpiry,
+  getNextStep,
+  populateStep,
+} from "../keeper/lifecycle";
+import { describeStepOutcome, getStepOutcome } from "../keeper/events";
+import {
+  MinPriceConfig,
+  getMinPrice,
+  getMinPriceSettings,
+  loadMinPriceConfig,
+} from "../keeper/minPrice";
+import { getStrikeProposals, getVolChecks } from "../keeper/progress";
+import {
+  checkVaultStrike,
+  createMarketDataProvider,
+  getStrikeGuardSettings,
+  getVaultStrike,
+  loadStrikeGuardConfig,
+} from "../keeper/strikeGuard";
+import {
+  getRollGuardErrors,
+  getRollGuardSettings,
+  getSuggestedStrike,
+  loadRollGuardConfig,
+  readRollCheck,
+} from "../keeper/rollGuard";
+import {
+  getPreflightErrors,
+  getPreflightSettings,
+  loadPreflightConfig,
+} from "../keeper/preflight";
+import { getUnderlying, loadVolConfig } from "../keeper/volatility";
+import { getTreasuryRound } from "../keeper/treasury";
+
+require("dotenv").config();
+
+// Steps replayed on the fork, swap offers are left out as they need signed bids
+const DRY_RUN_STEPS: VaultStep[] = [
+  "commitAndClose",
+  "closeRound",
+  "commitNextOption",
+  "rollToNextOption",
+  "settleAuction",
+  "concludeOptionsSale",
+  "chargeAndDistribute",
+  "burnRemainingOTokens",
+];
+
+type GuardedJob = "commitAndClose" | "rollToNextOption";
+
+// Job of each step the keeper checks the vaults before
+const GUARDED_JOBS: { [step: string]: GuardedJob } = {
+  commitAndClose: "commitAndClose",
+  closeRound: "commitAndClose",
+  commitNextOption: "commitAndClose",
+  rollToNextOption: "rollToNextOption",
+};
+
+/**
+ * Moves the fork to the end of the commit delay or of the running auction
+ * @return false when the vault is not waiting on either
+ */
+const fastForward = async (
+  hre: HardhatRuntimeEnvironment,
+  vault: Contract,
+  flavour: VaultFlavour,
+  gnosisAuction: Contract
+) => {
+  const { nextOption, nextOptionReadyAt } = await vault.optionState();
+  let target = 0;
+
+  if (nextOption !== ethers.constants.AddressZero) {
+    target = nextOptionReadyAt;
+  } else if (flavour !== "swap") {
+    const { auctionEndDate, initialAuctionOrder } =
+      await gnosisAuction.auctionData(await vault.optionAuctionID());
+    if (initialAuctionOrder !== BYTES_ZERO) {
+      target = auctionEndDate.toNumber() + 1;
+    }
+  }
+
+  const { timestamp } = await hre.ethers.provider.getBlock("latest");
+  if (target <= timestamp) {
+    return false;
+  }
+
+  await hre.network.provider.send("evm_setNextBlockTimestamp", [target]);
+  await hre.network.provider.send("evm_mine", []);
+  console.log(`  fast-forwarded to ${new Date(target * 1000).toUTCString()}`);
+  return true;
+};
+
+const impersonate = async (hre: HardhatRuntimeEnvironment, address: string) => {
+  await hre.network.provider.send("hardhat_setBalance", [
+    address,
+    ethers.utils.parseEther("100").toHexString(),
+  ]);
+  return createSigner(
+    { type: "impersonate", address },
+    hre.network.name,
+    hre.ethers.provider
+  );
+};
+
+/**
+ * Sets the approved strike of the vault's ManualStrikeSelection, as the
+ * keeper does right before committing, from whichever of the keeper and the
+ * owner signer owns the strike selection
+ * @param ownerAddress is the owner signer of the network, if configured
+ * @return false when the keeper would hold the commit
+ */
+const replayStrikeProposal = async (
+  hre: HardhatRuntimeEnvironment,
+  chainId: number,
+  vaultName: string,
+  vault: Contract,
+  flavour: VaultFlavour,
+  vaultDeployment: VaultDeployment,
+  ownerAddress: string | null
+) => {
+  const manualStrikeArtifact = await hre.artifacts.readArtifact(
+    "ManualStrikeSelection"
+  );
+  const strikeSelection = new ethers.Contract(
+    await getStrikeSelectionAddress(vault, vaultDeployment),
+    manualStrikeArtifact.abi,
+    hre.ethers.provider
+  );
+  const expiry = await getCommitExpiry(hre.ethers.provider, vault, flavour);
+  const { isPut } = await vault.vaultParams();
+  if (
+    (await getVaultStrike(vault, strikeSelection, expiry, isPut)).kind !==
+    "manual"
+  ) {
+    return true;
+  }
+
+  // Proposals of other expiries are left over from earlier rounds
+  const proposal = getStrikeProposals(chainId)[vaultName];
+  if (!proposal || proposal.expiry !== expiry) {
+    console.log(
+      `  setStrikePrice: commit held, no strike proposed for the ${new Date(
+        expiry * 1000
+      ).toUTCString()} expiry`
+    );
+    return false;
+  }
+  if (proposal.status === "rejected" || proposal.status === "submitted") {
+    return true;
+  }
+  if (proposal.status === "proposed") {
+    console.log(
+      `  setStrikePrice: commit held, strike ${proposal.strike} awaits approve-strikes`
+    );
+    return false;
+  }
+
+  const strikePrice = ethers.utils.parseUnits(proposal.strike.toFixed(8), 8);
+  if ((await strikeSelection.strikePrice()).eq(strikePrice)) {
+    return true;
+  }
+
+  // The keeper sends setStrikePrice from the same accounts
+  const owner: string = await strikeSelection.owner();
+  const sender = [await vault.keeper(), ownerAddress].find(
+    (account) => account && account.toLowerCase() === owner.toLowerCase()
+  );
+  if (!sender) {
+    console.log(
+      `  setStrikePrice: commit held, the strike selection is owned by ${owner}, neither the keeper nor the owner signer`
+    );
+    return false;
+  }
+
+  try {
+    const tx = await strikeSelection
+      .connect(await impersonate(hre, sender))
+      .setStrikePrice(strikePrice);
+    await tx.wait();
+    console.log(`  setStrikePrice: ${proposal.strike}`);
+    return true;
+  } catch (error) {
+    console.log(
+      `  setStrikePrice: reverted with ${error.reason || error.message}`
+    );
+    return false;
+  }
+};
+
+/**
+ * Runs the checks the keeper makes before the job, in its order: the
+ * preflight, then the manual strike and the strike guard before a commit,
+ * or the roll guard before a roll
+ * @param ownerAddress is the owner signer of the network, if configured
+ * @return false when the keeper would hold the vault
+ */
+const replayGuards = async (
+  hre: HardhatRuntimeEnvironment,
+  chainId: number,
+  job: GuardedJob,
+  vaultName: string,
+  vault: Contract,
+  flavour: VaultFlavour,
+  vaultDeployment: VaultDeployment,
+  ownerAddress: string | null
+) => {
+  const { provider } = hre.ethers;
+  const { timestamp } = await provider.getBlock("latest");
+  const preflightErrors = await getPreflightErrors(
+    provider,
+    vaultDeployment,
+    MANUAL_VOL_ORACLE[chainId],
+    getVolChecks(chainId),
+    getPreflightSettings(loadPreflightConfig(), vaultName),
+    timestamp
+  );
+  if (preflightErrors.length > 0) {
+    console.log(`  preflight: ${job} blocked, ${preflightErrors.join(", ")}`);
+    return false;
+  }
+
+  const volConfig = loadVolConfig();
+  const { asset } = await getUnderlying(provider, vault.address, volConfig);
+
+  if (job === "rollToNextOption") {
+    const feed = (volConfig.feeds[asset] || {})[chainId];
+    if (!feed) {
+      console.log(
+        `  roll guard: no Chainlink feed for ${asset}, strike left unchecked`
+      );
+      return true;
+    }
+    const check = await readRollCheck(
+      provider,
+      vault,
+      (
+        await vault.optionState()
+      ).nextOption,
+      feed
+    );
+    const errors = getRollGuardErrors(
+      check,
+      getRollGuardSettings(loadRollGuardConfig(), vaultName)
+    );
+    if (errors.length > 0) {
+      console.log(
+        `  roll guard: roll held, ${errors.join(
+          ", "
+        )}, suggested strike $${getSuggestedStrike(check)}`
+      );
+      return false;
+    }
+    return true;
+  }
+
+  if (
+    !(await replayStrikeProposal(
+      hre,
+      chainId,
+      vaultName,
+      vault,
+      flavour,
+      vaultDeployment,
+      ownerAddress
+    ))
+  ) {
+    return false;
+  }
+
+  // Treasury vaults which are not due this week do not commit
+  if (
+    flavour === "treasury" &&
+    !(await getTreasuryRound(provider, vault)).isDue
+  ) {
+    return true;
+  }
+
+  const strikeSelectionArtifact = await hre.artifacts.readArtifact(
+    "StrikeSelection"
+  );
+  const strikeSelection = new ethers.Contract(
+    await getStrikeSelectionAddress(vault, vaultDeployment),
+    strikeSelectionArtifact.abi,
+    provider
+  );
+  const expiry = await getCommitExpiry(provider, vault, flavour);
+  const { isPut } = await vault.vaultParams();
+  const vaultStrike = await getVaultStrike(
+    vault,
+    strikeSelection,
+    expiry,
+    isPut
+  );
+  const strikeGuardConfig = loadStrikeGuardConfig();
+  const marketData = createMarketDataProvider(strikeGuardConfig);
+
+  const errors = await checkVaultStrike(
+    marketData,
+    vaultStrike,
+    asset,
+    isPut,
+    expiry,
+    getStrikeGuardSettings(strikeGuardConfig, vaultName)
+  );
+  if (errors === null) {
+    console.log(
+      `  strike guard: no ${marketData.name} quotes for the option, strike ${vaultStrike.strike} left unchecked`
+    );
+  } else if (errors.length > 0) {
+    console.log(`  strike guard: commit refused, ${errors.join(", ")}`);
+    return false;
+  }
+  return true;
+};
+
+/**
+ * Sets the min price of an auction vault's committed option, as the keeper
+ * does right before rolling. A failure leaves the price set at the commit.
+ */
+const replayMinPrice = async (
+  hre: HardhatRuntimeEnvironment,
+  chainId: number,
+  vaultName: string,
+  vault: Contract,
+  vaultDeployment: VaultDeployment,
+  keeperSigner: Signer,
+  gnosisAuction: Contract,
+  minPriceConfig: MinPriceConfig
+) => {
+  try {
+    const { minPrice } = await getMinPrice(
+      hre.ethers.provider,
+      vault,
+      chainId,
+      await getOptionsPremiumPricerAddress(vault, vaultDeployment),
+      gnosisAuction,
+      getMinPriceSettings(minPriceConfig, vaultName)
+    );
+    const tx = await vault.connect(keeperSigner).setMinPrice(minPrice);
+    await tx.wait();
+    console.log(`  setMinPrice: ${ethers.utils.formatUnits(minPrice, 18)}`);
+  } catch (error) {
+    console.log(`  setMinPrice: failed with ${error.reason || error.message}`);
+  }
+};
+
+/**
+ * Replays the keeper's Friday sequence for every vault on a fork of the
+ * CHAINID network, sending each step from the vault's keeper, along with
+ * the approved ManualStrikeSelection strikes set before commits and the min
+ * prices set before rolls. Vaults the keeper's checks would hold stop
+ * before the commit or the roll. Reports the strike, oToken, minted amount and
+ * auction ID of each step, or the reason it reverted. Nothing is broadcast
+ * to the network itself.
+ */
+const main = async (taskArgs: unknown, hre: HardhatRuntimeEnvironment) => {
+  const chainId = process.env.CHAINID
+    ? Number(process.env.CHAINID)
+    : CHAINID.ETH_MAINNET;
+  const keeperNetwork = getKeeperNetwork(chainId);
+  const deployments = getNetworkDeployments(keeperNetwork);
+
+  await hre.network.provider.request({
+    method: "hardhat_reset",
+    params: [
+      {
+        forking: {
+          jsonRpcUrl: getDefaultProvider(keeperNetwork.name).connection.url,
+        },
+      },
+    ],
+  });
+
+  const { provider } = hre.ethers;
+  const minPriceConfig = loadMinPriceConfig();
+  let ownerAddress: string | null = null;
+  try {
+    ownerAddress = await (
+      await getRoleSigner("owner", keeperNetwork.name)
+    ).getAddress();
+  } catch (error) {
+    console.log(`No owner signer: ${error.message}`);
+  }
+  const gnosisArtifact = await hre.artifacts.readArtifact("IGnosisAuction");
+  const gnosisAuction = new ethers.Contract(
+    GNOSIS_EASY_AUCTION[chainId],
+    gnosisArtifact.abi,
+    provider
+  );
+
+  for (const [vaultName, vaultDeployment] of Object.entries(
+    deployments.vaults
+  )) {
+    const flavour = await getVaultFlavour(provider, vaultDeployment.address);
+    const vaultArtifact = await hre.artifacts.readArtifact(
+      VAULT_ARTIFACTS[flavour]
+    );
+    const vault = new ethers.Contract(
+      vaultDeployment.address,
+      vaultArtifact.abi,
+      provider
+    );
+    const { decimals } = await vault.vaultParams();
+
+    const keeperSigner = await impersonate(hre, await vault.keeper());
+
+    console.log(`${vaultName} (${flavour})`);
+
+    let previousStep: VaultStep = "wait";
+    // Job whose checks the vault went through last
+    let guardedJob: GuardedJob | null = null;
+
+    for (;;) {
+      const step = await getNextStep(provider, vault, flavour, gnosisAuction);
+
+      if (step === "wait") {
+        if (await fastForward(hre, vault, flavour, gnosisAuction)) {
+          continue; // eslint-disable-line no-continue
+        }
+        break;
+      }
+      if (!DRY_RUN_STEPS.includes(step) || step === previousStep) {
+        console.log(`  stopped at ${step}`);
+        break;
+      }
+      previousStep = step;
+
+      const job = GUARDED_JOBS[step];
+      if (job && job !== guardedJob) {
+        guardedJob = job;
+        if (
+          !(await replayGuards(
+            hre,
+            chainId,
+            job,
+            vaultName,
+            vault,
+            flavour,
+            vaultDeployment,
+            ownerAddress
+          ))
+        ) {
+          break;
+        }
+      }
+      if (step === "rollToNextOption" && flavour === "gnosis") {
+        await replayMinPrice(
+          hre,
+          chainId,
+          vaultName,
+          vault,
+          vaultDeployment,
+          keeperSigner,
+          gnosisAuction,
+          minPriceConfig
+        );
+      }
+
+      try {
+        const tx = await keeperSigner.sendTransaction(
+          await populateStep(vault, step, gnosisAuction)
+        );
+        const receipt = await tx.wait();
+        const outcome = getStepOutcome(vault.address, receipt);
+
+        // The committed oToken only shows up in the vault state
+        if (step === "commitAndClose" || step === "commitNextOption") {
+          outcome.oToken = (await vault.optionState()).nextOption;
+        }
+
+        console.log(
+          `  ${step}: ${describeStepOutcome(outcome, decimals) || "ok"}`
+        );
+      } catch (error) {
+        console.log(
+          `  ${step}: reverted with ${error.reason || error.message}`
+        );
+        break;
+      }
+    }
+  }
+};
+
+export default main;
@@ -0,0 +1,71 @@
+import { CHAINID, MANUAL_VOL_ORACLE } from "../../constants/constants";
+import { getDefaultProvider } from "../helpers/getDefaultEthersProvider";
+import { getKeeperNetwork, getNetworkDeployments } from "../keeper/networks";
+import {
+  getPreflightErrors,
+  getPreflightSettings,
+  loadPreflightConfig,
+} from "../keeper/preflight";
+import { getVolChecks } from "../keeper/progress";
+
+require("dotenv").config();
+
+interface PreflightArgs {
+  vaults?: string;
+  chainid?: string;
+}
+
+/**
+ * Runs the checks the keeper makes before committing and rolling: the
+ * ManualVolOracle vol and the Chainlink feeds of each vault's premium
+ * pricer. Vol records are read from the keeper's progress directory.
+ * Throws when a vault fails, after reporting every vault.
+ */
+const main = async ({ vaults, chainid }: PreflightArgs) => {
+  const chainId = Number(chainid || process.env.CHAINID || CHAINID.ETH_MAINNET);
+  const keeperNetwork = getKeeperNetwork(chainId);
+  const deployments = getNetworkDeployments(keeperNetwork);
+  const provider = getDefaultProvider(keeperNetwork.name);
+  const config = loadPreflightConfig();
+  const volChecks = getVolChecks(chainId);
+  const now = Math.floor(Date.now() / 1000);
+
+  const vaultNames = vaults
+    ? vaults.split(",")
+    : Object.keys(deployments.vaults);
+  const unknown = vaultNames.filter(
+    (vaultName) => !deployments.vaults[vaultName]
+  );
+  if (unknown.length > 0) {
+    throw new Error(`Unknown vaults ${unknown.join(", ")}`);
+  }
+
+  const failed: string[] = [];
+  for (const vaultName of vaultNames) {
+    let errors: string[];
+    try {
+      errors = await getPreflightErrors(
+        provider,
+        deployments.vaults[vaultName],
+        MANUAL_VOL_ORACLE[chainId],
+        volChecks,
+        getPreflightSettings(config, vaultName),
+        now
+      );
+    } catch (error) {
+      errors = [`checks failed with ${error.message}`];
+    }
+    console.log(
+      `${vaultName}: ${errors.length === 0 ? "ok" : errors.join(", ")}`
+    );
+    if (errors.length > 0) {
+      failed.push(vaultName);
+    }
+  }
+
+  if (failed.length > 0) {
+    throw new Error(`Preflight failed for ${failed.join(", ")}`);
+  }
+};
+
+export default main;
@@ -0,0 +1,32 @@
+import simpleGit from "simple-git";
+import { DEFAULT_TOKEN_LIST_DIR } from "../helpers/tokenList";
+
+interface PublishTokenListArgs {
+  dir?: string;
+  remote: string;
+  branch: string;
+}
+
+/**
+ * Commits the token lists in `dir`, a clone of the token list repository,
+ * and pushes them
+ */
+const main = async ({ dir, remote, branch }: PublishTokenListArgs) => {
+  const git = simpleGit({ baseDir: dir || DEFAULT_TOKEN_LIST_DIR });
+
+  if (!(await git.checkIsRepo())) {
+    throw new Error(`${dir || DEFAULT_TOKEN_LIST_DIR} is not a git repository`);
+  }
+
+  await git.add("*.tokenlist.json");
+  if ((await git.status()).staged.length === 0) {
+    console.log("Token lists are up to date");
+    return;
+  }
+
+  await git.commit(`update token lists ${new Date().toISOString()}`);
+  await git.push(remote, branch);
+  console.log(`Pushed token lists to ${remote}/${branch}`);
+};
+
+export default main;
@@ -0,0 +1,329 @@
+import * as fs from "fs";
+import * as path from "path";
+import { BigNumber, Contract, ethers } from "ethers";
+import { Provider } from "@ethersproject/providers";
+import { HardhatRuntimeEnvironment } from "hardhat/types";
+import { CHAINID } from "../../constants/constants";
+import { getDefaultProvider } from "../helpers/getDefaultEthersProvider";
+import { createSigner } from "../helpers/signers";
+import {
+  SafeBatchTransaction,
+  toSafeBatch,
+  toSafeTransaction,
+} from "../helpers/safeBatch";
+import {
+  NetworkDeployments,
+  getKeeperNetwork,
+  getNetworkDeployments,
+  getVaultAddress,
+} from "../keeper/networks";
+
+require("dotenv").config();
+
+const { getAddress, hexDataSlice, parseEther, parseUnits } = ethers.utils;
+
+// EIP-1967 slots of AdminUpgradeabilityProxy
+const IMPLEMENTATION_SLOT =
+  "0x360894a13ba1a3210667c828492db98dca3e2076cc3735a920a3ca505d382bbc";
+const ADMIN_SLOT =
+  "0xb53127684a568b3173ae13b9f8a6016e243e63b6e8ee1178d6a717850b5d6103";
+
+// Vault.FEE_MULTIPLIER and RibbonVault.WEEKS_PER_YEAR
+const FEE_DECIMALS = 6;
+const FEE_MULTIPLIER = 10 ** FEE_DECIMALS;
+const WEEKS_PER_YEAR = 52142857;
+
+export type OwnerMethod =
+  | "setCap"
+  | "setPremiumDiscount"
+  | "setAuctionDuration"
+  | "setStrikeSelection"
+  | "setOptionsPremiumPricer"
+  | "setManagementFee"
+  | "setPerformanceFee"
+  | "setLiquidityGauge"
+  | "setOptionsPurchaseQueue"
+  | "upgradeTo";
+
+// Getter reading the value each setter writes, upgradeTo reads the proxy slot
+const GETTERS: Record<OwnerMethod, string | null> = {
+  setCap: "vaultParams",
+  setPremiumDiscount: "premiumDiscount",
+  setAuctionDuration: "auctionDuration",
+  setStrikeSelection: "strikeSelection",
+  setOptionsPremiumPricer: "optionsPremiumPricer",
+  setManagementFee: "managementFee",
+  setPerformanceFee: "performanceFee",
+  setLiquidityGauge: "liquidityGauge",
+  setOptionsPurchaseQueue: "optionsPurchaseQueue",
+  upgradeTo: null,
+};
+
+const vaultInterface = new ethers.utils.Interface([
+  "function owner() view returns (address)",
+  "function period() view returns (uint256)",
+  "function vaultParams() view returns (bool isPut, uint8 decimals, address asset, address underlying, uint56 minimumSupply, uint104 cap)",
+  "function premiumDiscount() view returns (uint256)",
+  "function auctionDuration() view returns (uint256)",
+  "function strikeSelection() view returns (address)",
+  "function optionsPremiumPricer() view returns (address)",
+  "function managementFee() view returns (uint256)",
+  "function performanceFee() view returns (uint256)",
+  "function liquidityGauge() view returns (address)",
+  "function optionsPurchaseQueue() view returns (address)",
+  "function setCap(uint256 newCap)",
+  "function setPremiumDiscount(uint256 newPremiumDiscount)",
+  "function setAuctionDuration(uint256 newAuctionDuration)",
+  "function setStrikeSelection(address newStrikeSelection)",
+  "function setOptionsPremiumPricer(address newOptionsPremiumPricer)",
+  "function setManagementFee(uint256 newManagementFee)",
+  "function setPerformanceFee(uint256 newPerformanceFee)",
+  "function setLiquidityGauge(address newLiquidityGauge)",
+  "function setOptionsPurchaseQueue(address newOptionsPurchaseQueue)",
+  "function upgradeTo(address newImplementation)",
+]);
+
+// Value in the units of the setter: caps in the vault asset, fees in
+// percent, premium discounts and auction durations as the vault takes them
+export interface VaultChange {
+  // Vault name in the cron deployments, or its address
+  vault: string;
+  method: OwnerMethod;
+  value: string;
+}
+
+interface ChangesFile {
+  name?: string;
+  description?: string;
+  changes: VaultChange[];
+}
+
+interface PlannedChange extends VaultChange {
+  address: string;
+  // owner() for vault setters, the proxy admin for upgradeTo
+  sender: string;
+  current: string;
+  target: string;
+  transaction: SafeBatchTransaction;
+}
+
+interface SafeBatchArgs {
+  changes: string;
+  out: string;
+}
+
+const readSlot = async (provider: Provider, address: string, slot: string) =>
+  getAddress(hexDataSlice(await provider.getStorageAt(address, slot), 12));
+
+const hasPeriod = async (vault: Contract) => {
+  try {
+    await vault.period();
+    return true;
+  } catch (error) {
+    return false;
+  }
+};
+
+// Vaults store the management fee per round, see setManagementFee
+const getPerRoundManagementFee = async (vault: Contract, fee: BigNumber) => {
+  let divider = WEEKS_PER_YEAR;
+  if (await hasPeriod(vault)) {
+    const period = (await vault.period()).toNumber();
+    divider =
+      period % 30 === 0
+        ? FEE_MULTIPLIER * Math.floor(12 / Math.floor(period / 30))
+        : Math.floor(WEEKS_PER_YEAR / Math.floor(period / 7));
+  }
+  return fee.mul(FEE_MULTIPLIER).div(divider);
+};
+
+/**
+ * Value the method sets as it reads on-chain, in the units of the setter
+ * argument except for the per-round management fee
+ */
+const readState = async (
+  provider: Provider,
+  vault: Contract,
+  method: OwnerMethod
+): Promise<string> => {
+  if (method === "upgradeTo") {
+    return readSlot(provider, vault.address, IMPLEMENTATION_SLOT);
+  }
+  if (method === "setCap") {
+    return (await vault.vaultParams()).cap.toString();
+  }
+
+  const value = await vault[GETTERS[method]]();
+  return typeof value === "string" ? getAddress(value) : value.toString();
+};
+
+const parseArgument = async (vault: Contract, change: VaultChange) => {
+  switch (change.method) {
+    case "setCap":
+      return parseUnits(
+        change.value,
+        (await vault.vaultParams()).decimals
+      ).toString();
+    case "setManagementFee":
+    case "setPerformanceFee":
+      return parseUnits(change.value, FEE_DECIMALS).toString();
+    case "setPremiumDiscount":
+    case "setAuctionDuration":
+      return BigNumber.from(change.value).toString();
+    default:
+      return getAddress(change.value);
+  }
+};
+
+const describe = ({ vault, method, value }: VaultChange) =>
+  `${vault}-${method}(${value})`;
+
+async function planChange(
+  provider: Provider,
+  deployments: NetworkDeployments,
+  change: VaultChange
+): Promise<PlannedChange> {
+  if (!(change.method in GETTERS)) {
+    throw new Error(`${describe(change)}: unsupported method`);
+  }
+
+  const address = getVaultAddress(deployments, change.vault);
+  const vault = new Contract(address, vaultInterface, provider);
+  const argument = await parseArgument(vault, change);
+  const target =
+    change.method === "setManagementFee"
+      ? (
+          await getPerRoundManagementFee(vault, BigNumber.from(argument))
+        ).toString()
+      : argument;
+
+  return {
+    ...change,
+    address,
+    sender:
+      change.method === "upgradeTo"
+        ? await readSlot(provider, address, ADMIN_SLOT)
+        : await vault.owner(),
+    current: await readState(provider, vault, change.method),
+    target,
+    transaction: toSafeTransaction(
+      address,
+      vaultInterface.getFunction(change.method),
+      [argument]
+    ),
+  };
+}
+
+/**
+ * Turns a list of intended owner changes into Safe Transaction Builder
+ * batches, one per sending Safe: vault owners for setters and proxy admins
+ * for upgrades. Changes already live on-chain are skipped. Every batch is
+ * run from its Safe on a fork of the CHAINID network and the vaults read
+ * back before anything is written.
+ */
+const main = async (
+  { changes, out }: SafeBatchArgs,
+  hre: HardhatRuntimeEnvironment
+) => {
+  const chainId = process.env.CHAINID
+    ? Number(process.env.CHAINID)
+    : CHAINID.ETH_MAINNET;
+  const keeperNetwork = getKeeperNetwork(chainId);
+  const deployments = getNetworkDeployments(keeperNetwork);
+  const changesFile: ChangesFile = JSON.parse(fs.readFileSync(changes, "utf8"));
+
+  await hre.network.provider.request({
+    method: "hardhat_reset",
+    params: [
+      {
+        forking: {
+          jsonRpcUrl: getDefaultProvider(keeperNetwork.name).connection.url,
+        },
+      },
+    ],
+  });
+  const { provider } = hre.ethers;
+
+  const batches = new Map<string, PlannedChange[]>();
+
+  for (const change of changesFile.changes) {
+    const planned = await planChange(provider, deployments, change);
+
+    if (planned.current === planned.target) {
+      console.log(`${describe(change)}: already set, skipped`);
+      continue; // eslint-disable-line no-continue
+    }
+    console.log(
+      `${describe(change)}: ${planned.current} -> ${planned.target} from ${
+        planned.sender
+      }`
+    );
+    batches.set(planned.sender, [
+      ...(batches.get(planned.sender) || []),
+      planned,
+    ]);
+  }
+
+  if (batches.size === 0) {
+    console.log("Nothing to change");
+    return;
+  }
+
+  // Batches run one after the other, in the order their Safes first appear
+  for (const [sender, planned] of batches) {
+    const signer = await createSigner(
+      { type: "impersonate", address: sender },
+      hre.network.name,
+      provider
+    );
+    await hre.network.provider.send("hardhat_setBalance", [
+      sender,
+      parseEther("10").toHexString(),
+    ]);
+
+    for (const change of planned) {
+      try {
+        const tx = await signer.sendTransaction({
+          to: change.transaction.to,
+          data: change.transaction.data,
+        });
+        await tx.wait();
+      } catch (error) {
+        throw new Error(
+          `${describe(change)} reverted from ${sender}: ${
+            error.reason || error.message
+          }`
+        );
+      }
+    }
+  }
+
+  for (const planned of [...batches.values()].flat()) {
+    const vault = new Contract(planned.address, vaultInterface, provider);
+    const state = await readState(provider, vault, planned.method);
+    if (state !== planned.target) {
+      throw new Error(
+        `${describe(planned)}: reads ${state} after the batch, expected ${
+          planned.target
+        }`
+      );
+    }
+  }
+  console.log("Batches succeeded on the fork");
+
+  fs.mkdirSync(out, { recursive: true });
+  for (const [sender, planned] of batches) {
+    const file = path.join(out, `${keeperNetwork.name}-${sender}.json`);
+    const batch = toSafeBatch(
+      chainId,
+      sender,
+      changesFile.name || "Ribbon vault changes",
+      changesFile.description || planned.map(describe).join(", "),
+      planned.map(({ transaction }) => transaction)
+    );
+    fs.writeFileSync(file, `${JSON.stringify(batch, null, 2)}\n`);
+    console.log(`${file}: ${planned.length} transactions for ${sender}`);
+  }
+};
+
+export default main;
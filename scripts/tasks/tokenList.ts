@@ -0,0 +1,53 @@
+import { CHAINID } from "../../constants/constants";
+import { getDefaultProvider } from "../helpers/getDefaultEthersProvider";
+import {
+  DEFAULT_TOKEN_LIST_DIR,
+  DEFAULT_TOKEN_LOGO,
+  updateTokenList,
+} from "../helpers/tokenList";
+import { getKeeperNetwork, getNetworkDeployments } from "../keeper/networks";
+
+require("dotenv").config();
+
+interface TokenListArgs {
+  chainids?: string;
+  dir?: string;
+  logo?: string;
+}
+
+/**
+ * Writes the oToken list of every given chain into `dir`, one
+ * ribbon.<network>.tokenlist.json per chain. Nothing is published.
+ */
+const main = async ({ chainids, dir, logo }: TokenListArgs) => {
+  const chainIds = (
+    chainids ||
+    process.env.CHAINID ||
+    CHAINID.ETH_MAINNET.toString()
+  )
+    .split(",")
+    .map(Number);
+
+  for (const chainId of chainIds) {
+    const keeperNetwork = getKeeperNetwork(chainId);
+    const deployments = getNetworkDeployments(keeperNetwork);
+
+    const { file, list, changed } = await updateTokenList(
+      getDefaultProvider(keeperNetwork.name),
+      chainId,
+      keeperNetwork.name,
+      Object.values(deployments.vaults).map(({ address }) => address),
+      dir || DEFAULT_TOKEN_LIST_DIR,
+      logo || DEFAULT_TOKEN_LOGO
+    );
+
+    const { major, minor, patch } = list.version;
+    console.log(
+      `${file}: ${list.tokens.length} oTokens, v${major}.${minor}.${patch}${
+        changed ? "" : " (unchanged)"
+      }`
+    );
+  }
+};
+
+export default main;
@@ -0,0 +1,45 @@
+import { ethers } from "ethers";
+import { Provider } from "@ethersproject/providers";
+
+// A mocked function takes the decoded arguments of a call and returns the
+// values to encode, a single value for single outputs
+const callHandler = (...args: ethers.utils.Result): unknown => args;
+export type CallHandler = typeof callHandler;
+
+// Mocked functions by contract address (lowercase), then by function name
+export type MockContracts = {
+  [address: string]: { [functionName: string]: CallHandler };
+};
+
+/**
+ * Provider answering eth_calls from the mocked contracts, encoded with the
+ * interface. Calls to functions a contract does not mock revert.
+ * @param overrides replace or add provider methods, e.g. getBlock
+ */
+export const mockProvider = (
+  mockInterface: ethers.utils.Interface,
+  contracts: MockContracts,
+  overrides: Partial<Provider> = {}
+) =>
+  ({
+    _isProvider: true,
+    resolveName: async (name: string) => name,
+    call: async ({ to, data }: { to: string; data: string }) => {
+      const fragment = mockInterface.getFunction(data.slice(0, 10));
+      const args = mockInterface.decodeFunctionData(fragment, data);
+      const handler = (contracts[to.toLowerCase()] || {})[fragment.name];
+      if (!handler) {
+        throw new Error(`${to} reverted on ${fragment.name}`);
+      }
+      const result = handler(...args);
+      return mockInterface.encodeFunctionResult(
+        fragment,
+        Array.isArray(result) ? result : [result]
+      );
+    },
+    ...overrides,
+  } as unknown as Provider);
+
+// Lowercase, as the mocked contracts are keyed
+export const mockAddress = (n: number) =>
+  ethers.utils.hexZeroPad(`0x${n.toString(16)}`, 20);
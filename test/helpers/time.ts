@@ -1,5 +1,6 @@
 import { ethers } from "hardhat";
 import { BigNumber } from "ethers";
+import { getNextFridayExpiry } from "../../scripts/helpers/calendar";
 
 // Increases ganache time by the passed duration in seconds
 export async function increase(duration: number | BigNumber) {
@@ -20,6 +21,11 @@ export async function now() {
   return BigNumber.from((await ethers.provider.getBlock("latest")).timestamp);
 }
 
+// Friday 8am UTC expiry a vault would commit to at the current time
+export async function nextFridayExpiry() {
+  return getNextFridayExpiry((await now()).toNumber());
+}
+
 /**
  * Beware that due to the need of calling two separate ganache methods and rpc calls overhead
  * it's hard to increase time precisely to a target point so design your test to tolerate
@@ -33,6 +33,14 @@ import {
 import { SignerWithAddress } from "@nomiclabs/hardhat-ethers/dist/src/signers";
 import { BigNumber, BigNumberish, Contract } from "ethers";
 import { wmul } from "../helpers/math";
+import {
+  Order,
+  QUEUE_START,
+  decodeOrder,
+  encodeOrder,
+} from "../../scripts/helpers/easyAuction";
+
+export { Order, decodeOrder, encodeOrder };
 
 const { provider } = ethers;
 const { parseEther } = ethers.utils;
@@ -459,9 +467,6 @@ export async function bidForOToken(
       ? bid.mul(BigNumber.from(10).pow(assetDecimals - 18))
       : bid.div(BigNumber.from(10).pow(18 - assetDecimals));
 
-  const queueStartElement =
-    "0x0000000000000000000000000000000000000000000000000000000000000001";
-
   await assetContract
     .connect(userSigner)
     .approve(gnosisAuction.address, bid.toString());
@@ -473,7 +478,7 @@ export async function bidForOToken(
       latestAuction,
       [totalOptionsAvailableToBuy.toString()],
       [bid.toString()],
-      [queueStartElement],
+      [QUEUE_START],
       "0x"
     );
 
@@ -515,29 +520,6 @@ export async function closeAuctionAndClaim(
   await vault.claimAuctionOtokens();
 }
 
-export interface Order {
-  sellAmount: BigNumber;
-  buyAmount: BigNumber;
-  userId: BigNumber;
-}
-
-export function decodeOrder(bytes: string): Order {
-  return {
-    userId: BigNumber.from("0x" + bytes.substring(2, 18)),
-    sellAmount: BigNumber.from("0x" + bytes.substring(43, 66)),
-    buyAmount: BigNumber.from("0x" + bytes.substring(19, 42)),
-  };
-}
-
-export function encodeOrder(order: Order): string {
-  return (
-    "0x" +
-    order.userId.toHexString().slice(2).padStart(16, "0") +
-    order.buyAmount.toHexString().slice(2).padStart(24, "0") +
-    order.sellAmount.toHexString().slice(2).padStart(24, "0")
-  );
-}
-
 async function sharesToAsset(
   shares: BigNumber,
   assetPerShare: BigNumber,
@@ -595,7 +577,7 @@ export const getDeltaStep = (asset: string) => {
     case "SUSHI":
       return BigNumber.from("1");
     case "MATIC":
-        return BigNumber.from("1");//set as one as this is only used to generate unique id. It is 0.1 actually
+      return BigNumber.from("1"); //set as one as this is only used to generate unique id. It is 0.1 actually
     case "WETH":
       if (chainId === CHAINID.AVAX_MAINNET) {
         return BigNumber.from("3");
@@ -13,6 +13,7 @@ import {
 } from "../../constants/constants";
 import { assert } from "../helpers/assertions";
 import { getGasPrice as getGasPriceFromEtherscan } from "../../scripts/helpers/getGasPrice";
+import { getNextVaultExpiry } from "../../scripts/helpers/calendar";
 
 moment.tz.setDefault("UTC");
 
@@ -253,33 +254,26 @@ describe("Integration-RibbonThetaVault", () => {
             return;
           }
 
+          const { currentOption: beforeCurrentOption } =
+            await vault.optionState();
+          const currentExpiry =
+            beforeCurrentOption === ethers.constants.AddressZero
+              ? null
+              : (
+                  await (
+                    await ethers.getContractAt("IOtoken", beforeCurrentOption)
+                  ).expiryTimestamp()
+                ).toNumber();
+
           const { timestamp } = await ethers.provider.getBlock("latest");
           const commitTx = await vault.commitAndClose({ gasLimit: 900000 });
           const receipt = await commitTx.wait();
           console.log(`commitAndClose took ${receipt.gasUsed} gas`);
 
-          let thisFriday: number;
-
-          if (moment(new Date()).weekday() >= 5) {
-            thisFriday = moment(new Date())
-              .startOf("isoWeek")
-              .add(1, "week")
-              .day("friday")
-              .hour(8)
-              .minutes(0)
-              .seconds(0)
-              .milliseconds(0)
-              .unix();
-          } else {
-            thisFriday = moment(new Date())
-              .startOf("isoWeek")
-              .day("friday")
-              .hour(8)
-              .minutes(0)
-              .seconds(0)
-              .milliseconds(0)
-              .unix();
-          }
+          const { timestamp: committedAt } = await ethers.provider.getBlock(
+            receipt.blockNumber
+          );
+          const expectedExpiry = getNextVaultExpiry(currentExpiry, committedAt);
 
           const { currentOption, nextOption, nextOptionReadyAt } =
             await vault.optionState();
@@ -289,7 +283,7 @@ describe("Integration-RibbonThetaVault", () => {
 
           const otoken = await ethers.getContractAt("IOtoken", nextOption);
 
-          assert.equal(await otoken.expiryTimestamp(), thisFriday);
+          assert.equal(await otoken.expiryTimestamp(), expectedExpiry);
           assert.equal(await otoken.isPut(), isPut);
           assert.equal(await otoken.collateralAsset(), assetContract.address);
           assert.equal(await otoken.underlyingAsset(), underlying);
@@ -0,0 +1,76 @@
+import { assert } from "chai";
+import { BigNumber, ethers } from "ethers";
+import { getProjectedClearing } from "../../scripts/keeper/auctionMonitor";
+import { Order } from "../../scripts/helpers/easyAuction";
+
+const { parseUnits } = ethers.utils;
+
+// Bids are in USDC, oTokens have 8 decimals
+const USDC_DECIMALS = 6;
+
+// Bid of usdc for at least oTokens
+const order = (usdc: number, oTokens: number, userId = 1): Order => ({
+  sellAmount: parseUnits(String(usdc), USDC_DECIMALS),
+  buyAmount: parseUnits(String(oTokens), 8),
+  userId: BigNumber.from(userId),
+});
+
+// 10 oTokens auctioned for at least 50 USDC, 5 USDC per oToken
+const initialAuctionOrder: Order = {
+  sellAmount: parseUnits("10", 8),
+  buyAmount: parseUnits("50", USDC_DECIMALS),
+  userId: BigNumber.from(0),
+};
+
+// Prices per oToken have 18 decimals
+const price = (usdc: number) => parseUnits(String(usdc), 18);
+
+const assertClearing = (
+  orders: Order[],
+  expected: { price: number; sold: number; fill: number }
+) => {
+  const clearing = getProjectedClearing(
+    initialAuctionOrder,
+    orders,
+    USDC_DECIMALS
+  );
+  assert.equal(clearing.price.toString(), price(expected.price).toString());
+  assert.equal(
+    clearing.sold.toString(),
+    parseUnits(String(expected.sold), 8).toString()
+  );
+  assert.equal(clearing.fill, expected.fill);
+};
+
+describe("Keeper auction monitor", () => {
+  describe("#getProjectedClearing", () => {
+    it("clears at the price of a partly filled order", () => {
+      // 6 oTokens at 100 and 6 at 80: at 80 the 10 oTokens cost 800, the
+      // first order takes 7.5 of them and the second the other 2.5
+      assertClearing([order(480, 6, 2), order(600, 6), order(100, 2, 3)], {
+        price: 80,
+        sold: 10,
+        fill: 100,
+      });
+    });
+
+    it("clears above an order the higher bids leave out", () => {
+      // 900 USDC already buy the 10 oTokens at 90, above the 20 bid last
+      assertClearing([order(100, 5, 2), order(900, 6)], {
+        price: 90,
+        sold: 10,
+        fill: 100,
+      });
+    });
+
+    it("sells out to thin bids above the min price", () => {
+      // 300 USDC for at least 6 oTokens buys all 10 at 30
+      assertClearing([order(300, 6)], { price: 30, sold: 10, fill: 100 });
+    });
+
+    it("fills part of the auction at the min price", () => {
+      // 20 USDC only buy 4 of the 10 oTokens at 5
+      assertClearing([order(20, 2)], { price: 5, sold: 4, fill: 40 });
+    });
+  });
+});
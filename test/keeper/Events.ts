@@ -0,0 +1,63 @@
+import { assert } from "chai";
+import { ethers } from "ethers";
+import { TransactionReceipt } from "@ethersproject/providers";
+import { getStepOutcome } from "../../scripts/keeper/events";
+
+const eventInterface = new ethers.utils.Interface([
+  "event OpenShort(address indexed options, uint256 depositAmount, address indexed manager)",
+  "event NewOffer(uint256 swapId, address seller, address oToken, address biddingToken, uint256 minPrice, uint256 minBidSize, uint256 totalSize)",
+  "event Transfer(address indexed from, address indexed to, uint256 value)",
+]);
+
+const address = (n: number) =>
+  ethers.utils.getAddress(ethers.utils.hexZeroPad(`0x${n.toString(16)}`, 20));
+
+const vault = address(1);
+const swap = address(2);
+const oToken = address(3);
+
+const eventLog = (emitter: string, name: string, args: unknown[]) => ({
+  address: emitter,
+  ...eventInterface.encodeEventLog(eventInterface.getEvent(name), args),
+});
+
+const receipt = (logs: ReturnType<typeof eventLog>[]) =>
+  ({ logs } as unknown as TransactionReceipt);
+
+const newOffer = (swapId: number, seller: string) =>
+  eventLog(swap, "NewOffer", [swapId, seller, oToken, address(4), 1, 1, 100]);
+
+describe("Keeper events", () => {
+  describe("#getStepOutcome", () => {
+    it("reads the oToken opened and minted to the vault", () => {
+      const outcome = getStepOutcome(
+        vault,
+        receipt([
+          eventLog(oToken, "Transfer", [
+            ethers.constants.AddressZero,
+            vault,
+            100,
+          ]),
+          eventLog(vault, "OpenShort", [oToken, 5, address(5)]),
+        ])
+      );
+
+      assert.equal(outcome.oToken, oToken);
+      assert.equal(outcome.depositAmount.toNumber(), 5);
+      assert.equal(outcome.minted.toNumber(), 100);
+    });
+
+    it("reads the vault's offer from the Swap contract", () => {
+      assert.equal(
+        getStepOutcome(vault, receipt([newOffer(12, vault)])).swapId.toNumber(),
+        12
+      );
+    });
+
+    it("skips offers of other sellers", () => {
+      assert.isUndefined(
+        getStepOutcome(vault, receipt([newOffer(12, address(6))])).swapId
+      );
+    });
+  });
+});
@@ -0,0 +1,153 @@
+import { assert } from "chai";
+import { Contract, ethers } from "ethers";
+import { Block } from "@ethersproject/providers";
+import { BYTES_ZERO } from "../../constants/constants";
+import { getNextStep } from "../../scripts/keeper/lifecycle";
+import { MockContracts, mockAddress, mockProvider } from "../helpers/keeper";
+
+const { AddressZero } = ethers.constants;
+
+const NOW = 1660896000;
+
+const mockInterface = new ethers.utils.Interface([
+  "function optionState() view returns (address nextOption, address currentOption, uint32 nextOptionReadyAt)",
+  "function optionAuctionID() view returns (uint256)",
+  "function USDC() view returns (address)",
+  "function expiryTimestamp() view returns (uint256)",
+  "function balanceOf(address) view returns (uint256)",
+  "function SWAP_CONTRACT() view returns (address)",
+  "function swapOffers(uint256) view returns (address seller, address oToken, uint96 minPrice, address biddingToken, uint96 minBidSize, uint128 totalSize, uint128 availableSize, uint256 totalSales)",
+  "function auctionData(uint256 auctionId) view returns (address auctioningToken, address biddingToken, uint256 orderCancellationEndDate, uint256 auctionEndDate, bytes32 initialAuctionOrder, uint256 minimumBiddingAmountPerOrder, uint256 interimSumBidAmount, bytes32 interimOrder, bytes32 clearingPriceOrder, uint96 volumeClearingPriceOrder, bool minFundingThresholdNotReached, bool isAtomicClosureAllowed, uint256 feeNumerator, uint256 minFundingThreshold)",
+]);
+
+const vaultAddress = mockAddress(1);
+const otoken = mockAddress(2);
+const usdc = mockAddress(3);
+const easyAuction = mockAddress(4);
+const swap = mockAddress(5);
+
+// The chain is at NOW
+const mockChain = (contracts: MockContracts) =>
+  mockProvider(mockInterface, contracts, {
+    getBlock: async () => ({ timestamp: NOW } as Block),
+  });
+
+// A treasury vault whose option is live and whose auction has settled
+const treasuryAfterAuction = (usdcBalance: number, otokenBalance = 1e8) => {
+  const provider = mockChain({
+    [vaultAddress]: {
+      optionState: () => [AddressZero, otoken, 0],
+      optionAuctionID: () => 7,
+      USDC: () => usdc,
+    },
+    [otoken]: {
+      expiryTimestamp: () => NOW + 3600,
+      balanceOf: () => otokenBalance,
+    },
+    [usdc]: { balanceOf: () => usdcBalance },
+    [easyAuction]: {
+      auctionData: () => [
+        AddressZero,
+        AddressZero,
+        0,
+        NOW - 3600,
+        BYTES_ZERO,
+        0,
+        0,
+        BYTES_ZERO,
+        BYTES_ZERO,
+        0,
+        false,
+        false,
+        0,
+        0,
+      ],
+    },
+  });
+
+  return getNextStep(
+    provider,
+    new Contract(vaultAddress, mockInterface, provider),
+    "treasury",
+    new Contract(easyAuction, mockInterface, provider)
+  );
+};
+
+// A swap vault whose option is live and offered for sale
+const swapVaultOffering = (availableSize: number, otokenBalance = 1e8) => {
+  const provider = mockChain({
+    [vaultAddress]: {
+      optionState: () => [AddressZero, otoken, 0],
+      optionAuctionID: () => 7,
+      SWAP_CONTRACT: () => swap,
+    },
+    [otoken]: {
+      expiryTimestamp: () => NOW + 3600,
+      balanceOf: () => otokenBalance,
+    },
+    [swap]: {
+      swapOffers: () => [
+        availableSize === 0 ? AddressZero : vaultAddress,
+        availableSize === 0 ? AddressZero : otoken,
+        0,
+        AddressZero,
+        0,
+        1e8,
+        availableSize,
+        1,
+      ],
+    },
+  });
+
+  return getNextStep(
+    provider,
+    new Contract(vaultAddress, mockInterface, provider),
+    "swap",
+    new Contract(easyAuction, mockInterface, provider)
+  );
+};
+
+describe("Keeper lifecycle", () => {
+  describe("#getNextStep", () => {
+    it("distributes the premiums left after the auction", async () => {
+      assert.equal(await treasuryAfterAuction(500e6), "chargeAndDistribute");
+    });
+
+    it("leaves the USDC dust of a distribution", async () => {
+      assert.equal(await treasuryAfterAuction(10e6), "burnRemainingOTokens");
+      assert.equal(await treasuryAfterAuction(3), "burnRemainingOTokens");
+    });
+
+    it("waits once the oTokens are burnt", async () => {
+      assert.equal(await treasuryAfterAuction(3, 0), "wait");
+    });
+
+    it("settles an offer with oTokens left to sell", async () => {
+      assert.equal(await swapVaultOffering(1e8), "settleOffer");
+      assert.equal(await swapVaultOffering(4e7, 4e7), "settleOffer");
+    });
+
+    it("burns the oTokens left once an offer is fully settled", async () => {
+      assert.equal(await swapVaultOffering(0, 3), "burnRemainingOTokens");
+      assert.equal(await swapVaultOffering(0, 0), "wait");
+    });
+
+    it("rolls once the next option is ready", async () => {
+      const provider = mockChain({
+        [vaultAddress]: {
+          optionState: () => [otoken, AddressZero, NOW - 60],
+        },
+      });
+
+      assert.equal(
+        await getNextStep(
+          provider,
+          new Contract(vaultAddress, mockInterface, provider),
+          "treasury",
+          new Contract(easyAuction, mockInterface, provider)
+        ),
+        "rollToNextOption"
+      );
+    });
+  });
+});
@@ -0,0 +1,123 @@
+import { assert } from "chai";
+import {
+  getDeltaStrike,
+  getManualStrikeSettings,
+  getModelStrike,
+  getOptionDelta,
+  getStrikeStep,
+  roundToStep,
+} from "../../scripts/keeper/manualStrikes";
+
+const settings = { model: "delta" as const, delta: 0.1 };
+
+// ETH at 1600 with 80% vol, a week out
+const inputs = { spot: 1600, vol: 0.8, years: 7 / 365 };
+
+describe("Keeper manual strikes", () => {
+  describe("#getManualStrikeSettings", () => {
+    it("merges the vault's settings over the defaults", () => {
+      assert.deepEqual(
+        getManualStrikeSettings(
+          {
+            approval: true,
+            default: settings,
+            vaults: { "rAPE-THETA": { model: "fixed", strike: 5 } },
+          },
+          "rAPE-THETA"
+        ),
+        { model: "fixed", delta: 0.1, strike: 5 }
+      );
+    });
+  });
+
+  describe("#getStrikeStep", () => {
+    it("reads STRIKE_STEP by symbol, then by asset", () => {
+      assert.equal(getStrikeStep(["WETH", "ETH"], settings), 100);
+      assert.equal(getStrikeStep(["WBTC", "BTC"], settings), 1000);
+      assert.equal(getStrikeStep(["WMATIC", "MATIC"], settings), 0.1);
+    });
+
+    it("prefers the step of the settings", () => {
+      assert.equal(
+        getStrikeStep(["WETH", "ETH"], { ...settings, step: 50 }),
+        50
+      );
+    });
+
+    it("throws for assets without a step", () => {
+      assert.throws(() => getStrikeStep(["USDC", "USDC"], settings));
+    });
+  });
+
+  describe("#roundToStep", () => {
+    it("rounds away from the money", () => {
+      assert.equal(roundToStep(1910, 100, false), 2000);
+      assert.equal(roundToStep(1910, 100, true), 1900);
+      assert.equal(roundToStep(2000, 100, false), 2000);
+    });
+
+    it("keeps fractional steps on the grid", () => {
+      assert.equal(roundToStep(0.3, 0.1, false), 0.3);
+      assert.equal(roundToStep(0.3, 0.1, true), 0.3);
+      assert.equal(roundToStep(1.23, 0.1, false), 1.3);
+    });
+  });
+
+  describe("#getOptionDelta", () => {
+    it("matches Black-Scholes", () => {
+      const market = { vol: 0.2, years: 1 };
+      assert.closeTo(getOptionDelta(100, 100, market, false), 0.539828, 1e-6);
+      assert.closeTo(getOptionDelta(100, 100, market, true), 0.460172, 1e-6);
+    });
+  });
+
+  describe("#getDeltaStrike", () => {
+    it("picks the first call strike at or below the target delta", () => {
+      const { strike, delta } = getDeltaStrike(inputs, false, 0.1, 100);
+
+      assert.isAtMost(delta, 0.1);
+      assert.isAbove(getOptionDelta(1600, strike - 100, inputs, false), 0.1);
+      assert.equal(strike % 100, 0);
+    });
+
+    it("picks the first put strike at or below the target delta", () => {
+      const { strike, delta } = getDeltaStrike(inputs, true, 0.1, 100);
+
+      assert.isAtMost(delta, 0.1);
+      assert.isAbove(getOptionDelta(1600, strike + 100, inputs, true), 0.1);
+      assert.isBelow(strike, 1600);
+    });
+
+    it("starts out of the money", () => {
+      assert.equal(getDeltaStrike(inputs, false, 0.99, 100).strike, 1700);
+      assert.equal(getDeltaStrike(inputs, true, 0.99, 100).strike, 1500);
+    });
+  });
+
+  describe("#getModelStrike", () => {
+    it("rounds fixed strikes to the step", () => {
+      assert.deepEqual(
+        getModelStrike(
+          { model: "fixed", delta: 0.1, strike: 2050 },
+          100,
+          false,
+          null
+        ),
+        { strike: 2100, delta: null }
+      );
+    });
+
+    it("needs a strike for the fixed model", () => {
+      assert.throws(() =>
+        getModelStrike({ model: "fixed", delta: 0.1 }, 100, false, null)
+      );
+    });
+
+    it("runs the delta model on the inputs", () => {
+      assert.deepEqual(
+        getModelStrike(settings, 100, false, inputs),
+        getDeltaStrike(inputs, false, 0.1, 100)
+      );
+    });
+  });
+});
@@ -0,0 +1,158 @@
+import { assert } from "chai";
+import { ethers } from "ethers";
+import {
+  getPreflightErrors,
+  getPreflightSettings,
+} from "../../scripts/keeper/preflight";
+import { MockContracts, mockAddress, mockProvider } from "../helpers/keeper";
+
+const { parseUnits } = ethers.utils;
+
+const HOUR = 3600;
+const NOW = 1660896000;
+const OPTION_ID = ethers.utils.id("option");
+
+const settings = {
+  maxVolAge: 24 * HOUR,
+  underlyingHeartbeat: HOUR,
+  stablesHeartbeat: 24 * HOUR,
+};
+
+const mockInterface = new ethers.utils.Interface([
+  "function optionsPremiumPricer() view returns (address)",
+  "function volatilityOracle() view returns (address)",
+  "function optionId() view returns (bytes32)",
+  "function priceOracle() view returns (address)",
+  "function stablesOracle() view returns (address)",
+  "function annualizedVol(bytes32 optionId) view returns (uint256)",
+  "function latestAnswer() view returns (int256)",
+  "function latestTimestamp() view returns (uint256)",
+]);
+
+const vault = mockAddress(1);
+const pricer = mockAddress(2);
+const oracle = mockAddress(3);
+const underlyingFeed = mockAddress(4);
+const stablesFeed = mockAddress(5);
+
+interface Market {
+  vol?: number;
+  underlyingAge?: number;
+  stablesAge?: number | null;
+  price?: number;
+}
+
+const mockMarket = ({
+  vol = 0.8,
+  underlyingAge = 600,
+  stablesAge = 600,
+  price = 1600,
+}: Market) => {
+  const pricerHandlers: MockContracts[string] = {
+    volatilityOracle: () => oracle,
+    optionId: () => OPTION_ID,
+    priceOracle: () => underlyingFeed,
+  };
+  if (stablesAge !== null) {
+    pricerHandlers.stablesOracle = () => stablesFeed;
+  }
+
+  return mockProvider(mockInterface, {
+    [vault]: { optionsPremiumPricer: () => pricer },
+    [pricer]: pricerHandlers,
+    [oracle]: {
+      annualizedVol: () => parseUnits(String(vol), 8),
+    },
+    [underlyingFeed]: {
+      latestAnswer: () => parseUnits(String(price), 8),
+      latestTimestamp: () => NOW - underlyingAge,
+    },
+    [stablesFeed]: {
+      latestAnswer: () => parseUnits("1", 8),
+      latestTimestamp: () => NOW - (stablesAge || 0),
+    },
+  });
+};
+
+const checkVault = (
+  market: Market,
+  volChecks: Record<string, number> = { [OPTION_ID]: NOW - HOUR },
+  manualVolOracle = oracle
+) =>
+  getPreflightErrors(
+    mockMarket(market),
+    { address: vault },
+    manualVolOracle,
+    volChecks,
+    settings,
+    NOW
+  );
+
+describe("Keeper preflight", () => {
+  describe("#getPreflightSettings", () => {
+    it("merges the vault's settings over the defaults", () => {
+      assert.deepEqual(
+        getPreflightSettings(
+          {
+            default: settings,
+            vaults: { "rETH-THETA": { underlyingHeartbeat: 1200 } },
+          },
+          "rETH-THETA"
+        ),
+        { ...settings, underlyingHeartbeat: 1200 }
+      );
+    });
+  });
+
+  describe("#getPreflightErrors", () => {
+    it("passes a fresh vol and live feeds", async () => {
+      assert.isEmpty(await checkVault({}));
+    });
+
+    it("blocks a vol of 0", async () => {
+      const errors = await checkVault({ vol: 0 });
+      assert.lengthOf(errors, 1);
+      assert.include(errors[0], "!sSQRT");
+    });
+
+    it("blocks a vol the keeper has not set", async () => {
+      const errors = await checkVault({}, {});
+      assert.lengthOf(errors, 1);
+      assert.include(errors[0], "no record");
+    });
+
+    it("blocks a vol set too long ago", async () => {
+      const errors = await checkVault({}, { [OPTION_ID]: NOW - 30 * HOUR });
+      assert.lengthOf(errors, 1);
+      assert.include(errors[0], "last set or confirmed 30.0h ago");
+    });
+
+    it("skips the vol of pricers on another oracle", async () => {
+      assert.isEmpty(await checkVault({ vol: 0 }, {}, mockAddress(9)));
+    });
+
+    it("blocks feeds silent for longer than their heartbeat", async () => {
+      const errors = await checkVault({
+        underlyingAge: 2 * HOUR,
+        stablesAge: 26 * HOUR,
+      });
+      assert.lengthOf(errors, 2);
+      assert.include(errors[0], `underlying feed ${underlyingFeed}`);
+      assert.include(errors[1], `stables feed ${stablesFeed}`);
+    });
+
+    it("allows feeds a little late", async () => {
+      assert.isEmpty(await checkVault({ underlyingAge: HOUR + 120 }));
+    });
+
+    it("blocks feeds answering 0", async () => {
+      const errors = await checkVault({ price: 0 });
+      assert.lengthOf(errors, 1);
+      assert.include(errors[0], "price of 0 or less");
+    });
+
+    it("skips the stables feed of pricers without one", async () => {
+      assert.isEmpty(await checkVault({ stablesAge: null }));
+    });
+  });
+});
@@ -0,0 +1,154 @@
+import * as fs from "fs";
+import * as path from "path";
+import { assert } from "chai";
+import {
+  VAULT_REVERTS,
+  decodeFailure,
+  getRevertReason,
+} from "../../scripts/keeper/revertReasons";
+
+const CONTRACTS = path.join(__dirname, "..", "..", "contracts");
+
+const listSources = (dir: string): string[] =>
+  fs
+    .readdirSync(dir, { withFileTypes: true })
+    .reduce(
+      (files: string[], entry) =>
+        entry.isDirectory()
+          ? [...files, ...listSources(path.join(dir, entry.name))]
+          : [...files, path.join(dir, entry.name)],
+      []
+    )
+    .filter((file) => file.endsWith(".sol"));
+
+// Require strings of the vaults, the VaultLifecycle libraries and GnosisAuction
+const getRequireStrings = () => {
+  const libraries = path.join(CONTRACTS, "libraries");
+  const sources = [
+    ...listSources(path.join(CONTRACTS, "vaults")),
+    ...fs
+      .readdirSync(libraries)
+      .filter(
+        (file) =>
+          file.startsWith("VaultLifecycle") || file === "GnosisAuction.sol"
+      )
+      .map((file) => path.join(libraries, file)),
+  ];
+
+  const strings = new Set<string>();
+  for (const source of sources) {
+    const code = fs.readFileSync(source, "utf8");
+    // The message is the last argument, after the condition
+    for (const call of code.match(/require\([^;]*?"[^"]*"\s*\)/g) || []) {
+      strings.add(call.split('"').slice(-2)[0]);
+    }
+  }
+  return strings;
+};
+
+describe("RevertReasons", () => {
+  describe("VAULT_REVERTS", () => {
+    it("only explains require strings of the vault sources", () => {
+      const requireStrings = getRequireStrings();
+      for (const reason of Object.keys(VAULT_REVERTS)) {
+        assert.isTrue(requireStrings.has(reason), `${reason} is not required`);
+      }
+    });
+  });
+
+  describe("getRevertReason", () => {
+    it("reads the reason from hardhat errors", () => {
+      assert.equal(
+        getRevertReason(
+          new Error(
+            "VM Exception while processing transaction: reverted with reason string '!ready'"
+          )
+        ),
+        "!ready"
+      );
+    });
+
+    it("reads the reason from errors nested by ethers", () => {
+      assert.equal(
+        getRevertReason({
+          code: "UNPREDICTABLE_GAS_LIMIT",
+          message: "cannot estimate gas",
+          error: {
+            error: {
+              message: "execution reverted: Expiry before delay",
+            },
+          },
+        }),
+        "Expiry before delay"
+      );
+    });
+
+    it("reads the reason from reverted keeper transactions", () => {
+      assert.equal(
+        getRevertReason(
+          new Error("0x1234 reverted: execution reverted: No short")
+        ),
+        "No short"
+      );
+    });
+
+    it("returns null for errors other than reverts", () => {
+      assert.isNull(getRevertReason(new Error("missing response")));
+    });
+  });
+
+  describe("decodeFailure", () => {
+    it("explains known reasons", () => {
+      const failure = decodeFailure({ reason: "!sSQRT" });
+      assert.equal(failure.reason, "!sSQRT");
+      assert.equal(failure.kind, "fatal");
+      assert.include(failure.fix, "setAnnualizedVol");
+    });
+
+    it("retries timing failures", () => {
+      assert.equal(
+        decodeFailure(new Error("execution reverted: !ready")).kind,
+        "retryable"
+      );
+    });
+
+    it("retries gas, nonce and RPC failures", () => {
+      assert.equal(decodeFailure({ code: "TIMEOUT" }).kind, "retryable");
+      assert.equal(
+        decodeFailure(new Error("nonce too low")).reason,
+        "NONCE_EXPIRED"
+      );
+      assert.equal(
+        decodeFailure(new Error("max fee per gas less than block base fee"))
+          .kind,
+        "retryable"
+      );
+    });
+
+    it("retries steps whose wait failed", () => {
+      const taken = decodeFailure(
+        new Error("Nonce 12 was mined by another transaction than 0x1234")
+      );
+      assert.equal(taken.reason, "NONCE_TAKEN");
+      assert.equal(taken.kind, "retryable");
+
+      const pending = decodeFailure(
+        new Error("0x1234 not mined after 30 minutes")
+      );
+      assert.equal(pending.reason, "NOT_MINED");
+      assert.equal(pending.kind, "retryable");
+    });
+
+    it("does not retry a lack of funds", () => {
+      assert.equal(decodeFailure({ code: "INSUFFICIENT_FUNDS" }).kind, "fatal");
+    });
+
+    it("does not retry unknown failures", () => {
+      assert.equal(
+        decodeFailure(new Error("execution reverted: C30")).kind,
+        "fatal"
+      );
+      assert.equal(decodeFailure(new Error("unexpected")).kind, "fatal");
+    });
+  });
+});
@@ -0,0 +1,165 @@
+import { assert } from "chai";
+import { BigNumber, ethers } from "ethers";
+import {
+  getRollCheck,
+  getRollGuardErrors,
+  getRollGuardSettings,
+  getSuggestedStrike,
+  readRollCheck,
+} from "../../scripts/keeper/rollGuard";
+import { mockAddress, mockProvider } from "../helpers/keeper";
+
+const { parseUnits } = ethers.utils;
+
+const HOUR = 3600;
+const NOW = 1660896000;
+const PHASE = BigNumber.from(2).pow(64);
+
+const settings = { minDistance: 2, maxMove: 10 };
+
+const mockInterface = new ethers.utils.Interface([
+  "function optionState() view returns (address nextOption, address currentOption, uint32 nextOptionReadyAt)",
+  "function DELAY() view returns (uint256)",
+  "function strikePrice() view returns (uint256)",
+  "function isPut() view returns (bool)",
+  "function decimals() view returns (uint8)",
+  "function latestRound() view returns (uint256)",
+  "function getTimestamp(uint256 roundId) view returns (uint256)",
+  "function getAnswer(uint256 roundId) view returns (int256)",
+]);
+
+describe("Keeper roll guard", () => {
+  describe("#getRollGuardSettings", () => {
+    it("merges the vault's settings over the defaults", () => {
+      assert.deepEqual(
+        getRollGuardSettings(
+          { default: settings, vaults: { "rETH-THETA": { maxMove: 5 } } },
+          "rETH-THETA"
+        ),
+        { minDistance: 2, maxMove: 5 }
+      );
+    });
+  });
+
+  describe("#getRollCheck", () => {
+    it("measures calls and puts from the money", () => {
+      assert.closeTo(getRollCheck(false, 2000, 1600, 1600).distance, 25, 1e-9);
+      assert.closeTo(getRollCheck(true, 1200, 1600, 1600).distance, 25, 1e-9);
+      assert.closeTo(
+        getRollCheck(false, 1500, 1600, 1600).distance,
+        -6.25,
+        1e-9
+      );
+    });
+
+    it("measures the move since the commit", () => {
+      assert.closeTo(getRollCheck(false, 2000, 1760, 1600).move, 10, 1e-9);
+      assert.closeTo(getRollCheck(false, 2000, 1440, 1600).move, -10, 1e-9);
+    });
+  });
+
+  describe("#getRollGuardErrors", () => {
+    it("passes options out of the money after a small move", () => {
+      assert.isEmpty(
+        getRollGuardErrors(getRollCheck(false, 2000, 1650, 1600), settings)
+      );
+    });
+
+    it("holds options close to the money", () => {
+      const errors = getRollGuardErrors(
+        getRollCheck(false, 2000, 1980, 1900),
+        settings
+      );
+      assert.lengthOf(errors, 1);
+      assert.include(errors[0], "1.01% from the money");
+    });
+
+    it("holds options in the money", () => {
+      const errors = getRollGuardErrors(
+        getRollCheck(true, 1500, 1450, 1500),
+        settings
+      );
+      assert.lengthOf(errors, 1);
+      assert.include(errors[0], "3.45% in the money");
+    });
+
+    it("holds after a large move either way", () => {
+      const errors = getRollGuardErrors(
+        getRollCheck(true, 1200, 1400, 1600),
+        settings
+      );
+      assert.lengthOf(errors, 1);
+      assert.include(errors[0], "price moved -12.50% since the commit");
+    });
+  });
+
+  describe("#getSuggestedStrike", () => {
+    it("keeps the distance the strike had at the commit", () => {
+      assert.equal(
+        getSuggestedStrike(getRollCheck(false, 2000, 1800, 1600)),
+        2250
+      );
+      assert.equal(
+        getSuggestedStrike(getRollCheck(true, 1200, 1400, 1600)),
+        1050
+      );
+    });
+
+    it("rounds away from the money", () => {
+      assert.equal(
+        getSuggestedStrike(getRollCheck(false, 30000, 25000, 24000)),
+        31300
+      );
+      assert.equal(
+        getSuggestedStrike(getRollCheck(true, 80, 85.55, 100)),
+        68.4
+      );
+    });
+  });
+
+  describe("#readRollCheck", () => {
+    const vault = mockAddress(1);
+    const oToken = mockAddress(2);
+    const feed = mockAddress(3);
+    const committedAt = NOW - 10 * HOUR;
+
+    // Hourly rounds of the current phase, the price rising by 10 each
+    const contracts = (latest: number) => ({
+      [vault]: {
+        optionState: () => [oToken, ethers.constants.AddressZero, committedAt],
+        DELAY: () => 0,
+      },
+      [oToken]: {
+        strikePrice: () => parseUnits("2000", 8),
+        isPut: () => false,
+      },
+      [feed]: {
+        decimals: () => 8,
+        latestRound: () => PHASE.add(latest),
+        getTimestamp: (roundId: BigNumber) =>
+          NOW - 24 * HOUR + roundId.sub(PHASE).toNumber() * HOUR,
+        getAnswer: (roundId: BigNumber) =>
+          parseUnits(String(1500 + roundId.sub(PHASE).toNumber() * 10), 8),
+      },
+    });
+
+    it("reads the price now and at the commit", async () => {
+      const provider = mockProvider(mockInterface, contracts(24));
+      const vaultContract = new ethers.Contract(vault, mockInterface, provider);
+
+      assert.deepEqual(
+        await readRollCheck(provider, vaultContract, oToken, feed),
+        getRollCheck(false, 2000, 1740, 1630)
+      );
+    });
+
+    it("uses the latest price when no round was reported since the commit", async () => {
+      const provider = mockProvider(mockInterface, contracts(13));
+      const vaultContract = new ethers.Contract(vault, mockInterface, provider);
+
+      const check = await readRollCheck(provider, vaultContract, oToken, feed);
+      assert.equal(check.price, 1630);
+      assert.equal(check.commitPrice, 1630);
+    });
+  });
+});
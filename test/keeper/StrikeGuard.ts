@@ -0,0 +1,273 @@
+import { assert } from "chai";
+import { ethers } from "ethers";
+import {
+  MarketQuotes,
+  VaultStrike,
+  createDeribitProvider,
+  createFixtureProvider,
+  getDeltaAt,
+  getStrikeGuardErrors,
+  getStrikeGuardSettings,
+  getStrikeReference,
+  getVaultStrike,
+} from "../../scripts/keeper/strikeGuard";
+import { MockContracts, mockAddress, mockProvider } from "../helpers/keeper";
+
+const { parseUnits } = ethers.utils;
+
+// Friday 2022-08-26 8am UTC
+const EXPIRY = 1661500800;
+
+const settings = {
+  strikeTolerance: 10,
+  deltaTolerance: 0.05,
+  requireReference: false,
+};
+
+const quotes: MarketQuotes = {
+  spot: 1600,
+  strikes: [
+    { strike: 1700, delta: 0.3 },
+    { strike: 1800, delta: 0.2 },
+    { strike: 1900, delta: 0.12 },
+    { strike: 2000, delta: 0.07 },
+  ],
+};
+
+const deltaStrike = (strike: number, delta = 0.1): VaultStrike => ({
+  kind: "delta",
+  strike,
+  delta,
+  multiplier: null,
+});
+
+const mockInterface = new ethers.utils.Interface([
+  "function strikeMultiplier() view returns (uint256)",
+  "function step() view returns (uint256)",
+  "function delta() view returns (uint256)",
+  "function getStrikePrice(uint256 expiryTimestamp, bool isPut) view returns (uint256, uint256)",
+  "function lastStrikeOverrideRound() view returns (uint16)",
+  "function overriddenStrikePrice() view returns (uint256)",
+  "function vaultState() view returns (uint16 round, uint104 lockedAmount, uint104 lastLockedAmount, uint128 totalPending, uint128 queuedWithdrawShares)",
+]);
+
+describe("Keeper strike guard", () => {
+  describe("#getStrikeGuardSettings", () => {
+    it("merges the vault's settings over the defaults", () => {
+      assert.deepEqual(
+        getStrikeGuardSettings(
+          {
+            provider: "fixture",
+            default: settings,
+            vaults: { "rETH-THETA": { strikeTolerance: 5 } },
+          },
+          "rETH-THETA"
+        ),
+        { ...settings, strikeTolerance: 5 }
+      );
+    });
+  });
+
+  describe("#getVaultStrike", () => {
+    const selection = mockAddress(1);
+    const vault = mockAddress(2);
+    const strikeHandlers = {
+      getStrikePrice: (expiry: ethers.BigNumber, isPut: boolean) => {
+        assert.equal(expiry.toNumber(), EXPIRY);
+        assert.isFalse(isPut);
+        return [parseUnits("1900", 8), 1000];
+      },
+    };
+
+    const readStrike = async (contracts: MockContracts) => {
+      const provider = mockProvider(mockInterface, contracts);
+      return getVaultStrike(
+        new ethers.Contract(vault, mockInterface, provider),
+        new ethers.Contract(selection, mockInterface, provider),
+        EXPIRY,
+        false
+      );
+    };
+
+    it("reads delta strike selections", async () => {
+      assert.deepEqual(
+        await readStrike({
+          [selection]: {
+            ...strikeHandlers,
+            step: () => 100,
+            delta: () => 1000,
+          },
+        }),
+        { kind: "delta", strike: 1900, delta: 0.1, multiplier: null }
+      );
+    });
+
+    it("reads percent strike selections", async () => {
+      assert.deepEqual(
+        await readStrike({
+          [selection]: {
+            ...strikeHandlers,
+            strikeMultiplier: () => 120,
+            delta: () => 0,
+          },
+        }),
+        { kind: "percent", strike: 1900, delta: null, multiplier: 1.2 }
+      );
+    });
+
+    it("reads manual strike selections", async () => {
+      assert.deepEqual(
+        await readStrike({
+          [selection]: { ...strikeHandlers, delta: () => 1000 },
+        }),
+        { kind: "manual", strike: 1900, delta: 0.1, multiplier: null }
+      );
+    });
+
+    it("uses the strike set for the round", async () => {
+      const contracts = (overrideRound: number) => ({
+        [selection]: { ...strikeHandlers, step: () => 100, delta: () => 1000 },
+        [vault]: {
+          lastStrikeOverrideRound: () => overrideRound,
+          overriddenStrikePrice: () => parseUnits("2100", 8),
+          vaultState: () => [12, 0, 0, 0, 0],
+        },
+      });
+
+      assert.equal((await readStrike(contracts(12))).strike, 2100);
+      assert.equal((await readStrike(contracts(11))).strike, 1900);
+    });
+  });
+
+  describe("#getDeltaAt", () => {
+    it("interpolates between the quoted strikes", () => {
+      assert.equal(getDeltaAt(quotes.strikes, 1800), 0.2);
+      assert.closeTo(getDeltaAt(quotes.strikes, 1850), 0.16, 1e-9);
+    });
+
+    it("returns null outside the quoted strikes", () => {
+      assert.isNull(getDeltaAt(quotes.strikes, 1650));
+      assert.isNull(getDeltaAt(quotes.strikes, 2100));
+    });
+  });
+
+  describe("#getStrikeReference", () => {
+    it("picks the strike closest to the selection's delta", () => {
+      assert.deepEqual(getStrikeReference(deltaStrike(1900), quotes), {
+        strike: 1900,
+        delta: 0.12,
+      });
+    });
+
+    it("multiplies the spot price for percent selections", () => {
+      const reference = getStrikeReference(
+        { kind: "percent", strike: 1900, delta: null, multiplier: 1.2 },
+        quotes
+      );
+      assert.closeTo(reference.strike, 1920, 1e-9);
+    });
+
+    it("returns null without quoted strikes", () => {
+      assert.isNull(
+        getStrikeReference(deltaStrike(1900), { spot: 1600, strikes: [] })
+      );
+    });
+  });
+
+  describe("#getStrikeGuardErrors", () => {
+    it("passes strikes within the tolerances", () => {
+      const vaultStrike = deltaStrike(1900);
+      assert.isEmpty(
+        getStrikeGuardErrors(
+          vaultStrike,
+          getStrikeReference(vaultStrike, quotes),
+          settings
+        )
+      );
+    });
+
+    it("refuses strikes far from the reference", () => {
+      const errors = getStrikeGuardErrors(
+        deltaStrike(1500),
+        { strike: 1900, delta: null },
+        settings
+      );
+      assert.lengthOf(errors, 1);
+      assert.include(errors[0], "21.05% off the reference strike 1900");
+    });
+
+    it("refuses strikes whose market delta is off the target", () => {
+      const vaultStrike = deltaStrike(1750);
+      const errors = getStrikeGuardErrors(
+        vaultStrike,
+        getStrikeReference(vaultStrike, quotes),
+        settings
+      );
+      assert.lengthOf(errors, 1);
+      assert.include(errors[0], "market delta of the strike 0.2500");
+    });
+
+    it("skips the delta of percent selections", () => {
+      assert.isEmpty(
+        getStrikeGuardErrors(
+          { kind: "percent", strike: 1900, delta: null, multiplier: 1.2 },
+          { strike: 1920, delta: 0.12 },
+          settings
+        )
+      );
+    });
+  });
+
+  describe("#createFixtureProvider", () => {
+    it("returns the quotes of the underlying and option type", async () => {
+      const provider = createFixtureProvider({ "ETH-call": quotes });
+      assert.deepEqual(await provider.getQuotes("ETH", false, EXPIRY), quotes);
+      assert.isNull(await provider.getQuotes("ETH", true, EXPIRY));
+      assert.isNull(await provider.getQuotes("AVAX", false, EXPIRY));
+    });
+  });
+
+  describe("#createDeribitProvider", () => {
+    const instrument = (strike: number, type: string, expiry = EXPIRY) => ({
+      instrument_name: `ETH-${strike}-${type}`,
+      option_type: type,
+      expiration_timestamp: expiry * 1000,
+      strike,
+    });
+
+    const provider = createDeribitProvider(async (url) => {
+      if (url.includes("get_index_price")) {
+        return { result: { index_price: 1600 } };
+      }
+      if (url.includes("get_instruments")) {
+        return {
+          result: [
+            instrument(1500, "call"),
+            instrument(1700, "call"),
+            instrument(1800, "call"),
+            instrument(1800, "call", EXPIRY + 7 * 24 * 3600),
+            instrument(1500, "put"),
+          ],
+        };
+      }
+      const strike = Number(url.split("-")[1]);
+      return {
+        result: { greeks: { delta: strike === 1700 ? 0.3 : 0.2 } },
+      };
+    });
+
+    it("quotes the out of the money options of the expiry", async () => {
+      assert.deepEqual(await provider.getQuotes("ETH", false, EXPIRY), {
+        spot: 1600,
+        strikes: [
+          { strike: 1700, delta: 0.3 },
+          { strike: 1800, delta: 0.2 },
+        ],
+      });
+    });
+
+    it("returns null for assets Deribit does not list", async () => {
+      assert.isNull(await provider.getQuotes("AVAX", false, EXPIRY));
+    });
+  });
+});
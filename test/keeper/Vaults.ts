@@ -0,0 +1,60 @@
+import { assert } from "chai";
+import { ethers } from "ethers";
+import { getVaultFlavour } from "../../scripts/keeper/vaults";
+import { mockAddress, mockProvider } from "../helpers/keeper";
+
+const mockInterface = new ethers.utils.Interface([
+  "function SWAP_CONTRACT() view returns (address)",
+  "function period() view returns (uint256)",
+]);
+
+describe("Keeper vaults", () => {
+  describe("#getVaultFlavour", () => {
+    it("detects each flavour from its getters", async () => {
+      const provider = mockProvider(mockInterface, {
+        [mockAddress(1)]: { SWAP_CONTRACT: () => mockAddress(9) },
+        [mockAddress(2)]: { period: () => 30 },
+        [mockAddress(3)]: {},
+      });
+
+      assert.equal(await getVaultFlavour(provider, mockAddress(1)), "swap");
+      assert.equal(await getVaultFlavour(provider, mockAddress(2)), "treasury");
+      assert.equal(await getVaultFlavour(provider, mockAddress(3)), "gnosis");
+    });
+
+    it("reads a revert handed back as return data as a missing getter", async () => {
+      const provider = mockProvider(
+        mockInterface,
+        {},
+        { call: async () => "0x" }
+      );
+
+      assert.equal(await getVaultFlavour(provider, mockAddress(4)), "gnosis");
+    });
+
+    it("throws on node errors and detects again on the next call", async () => {
+      let calls = 0;
+      const provider = mockProvider(mockInterface, {
+        [mockAddress(5)]: {
+          SWAP_CONTRACT: () => {
+            calls += 1;
+            if (calls === 1) {
+              throw Object.assign(new Error("429 Too Many Requests"), {
+                code: "SERVER_ERROR",
+              });
+            }
+            return mockAddress(9);
+          },
+        },
+      });
+
+      try {
+        await getVaultFlavour(provider, mockAddress(5));
+        assert.fail("detected a flavour through a node error");
+      } catch (error) {
+        assert.equal(error.code, "SERVER_ERROR");
+      }
+      assert.equal(await getVaultFlavour(provider, mockAddress(5)), "swap");
+    });
+  });
+});
@@ -0,0 +1,444 @@
+import { assert } from "chai";
+import { BigNumber, ethers } from "ethers";
+import {
+  VolConfig,
+  VolSource,
+  combineVols,
+  createChainlinkSource,
+  createDeribitSource,
+  createStaticSource,
+  getRealizedVol,
+  getVolQuotes,
+  getVolTargets,
+  getVolUpdates,
+  populateVolUpdates,
+} from "../../scripts/keeper/volatility";
+import { mockAddress, mockProvider } from "../helpers/keeper";
+
+const { parseUnits } = ethers.utils;
+
+const DAY = 24 * 3600;
+const NOW = 1660896000;
+const PHASE = BigNumber.from(2).pow(64);
+
+const config: VolConfig = {
+  sources: [],
+  minVol: 0.2,
+  maxVol: 3,
+  maxSpread: 30,
+  minDeviation: 2,
+  realizedDays: 4,
+  aliases: { WETH: "ETH" },
+  feeds: {},
+};
+
+const mockInterface = new ethers.utils.Interface([
+  "function latestRound() view returns (uint256)",
+  "function getTimestamp(uint256 roundId) view returns (uint256)",
+  "function getAnswer(uint256 roundId) view returns (int256)",
+  "function optionsPremiumPricer() view returns (address)",
+  "function volatilityOracle() view returns (address)",
+  "function optionId() view returns (bytes32)",
+  "function vaultParams() view returns (bool isPut, uint8 decimals, address asset, address underlying, uint56 minimumSupply, uint104 cap)",
+  "function symbol() view returns (string)",
+  "function vol(bytes32 optionId) pure returns (uint256)",
+  "function annualizedVol(bytes32 optionId) view returns (uint256)",
+]);
+
+const fixedSource = (name: string, vols: { [asset: string]: number }) => ({
+  name,
+  getVol: async (asset: string) => (asset in vols ? vols[asset] : null),
+});
+
+describe("Keeper volatility", () => {
+  describe("#combineVols", () => {
+    const quote = (source: string, vol: number | null) => ({ source, vol });
+
+    it("takes the median of the quotes", () => {
+      const { vol, used, rejected } = combineVols(
+        [quote("a", 0.6), quote("b", 0.8), quote("c", 0.7)],
+        config
+      );
+
+      assert.equal(vol, 0.7);
+      assert.lengthOf(used, 3);
+      assert.lengthOf(rejected, 0);
+    });
+
+    it("averages the two middle quotes", () => {
+      assert.closeTo(
+        combineVols([quote("a", 0.6), quote("b", 0.8)], config).vol,
+        0.7,
+        1e-9
+      );
+    });
+
+    it("drops quotes outside the bounds", () => {
+      const { vol, rejected } = combineVols(
+        [quote("a", 0.05), quote("b", 0.9), quote("c", 4)],
+        config
+      );
+
+      assert.equal(vol, 0.9);
+      assert.deepEqual(
+        rejected.map(({ source }) => source),
+        ["a", "c"]
+      );
+    });
+
+    it("drops outliers from the median", () => {
+      const { vol, rejected } = combineVols(
+        [quote("a", 0.7), quote("b", 0.75), quote("c", 1.5)],
+        config
+      );
+
+      assert.closeTo(vol, 0.725, 1e-9);
+      assert.deepEqual(
+        rejected.map(({ source }) => source),
+        ["c"]
+      );
+    });
+
+    it("ignores sources without a quote", () => {
+      assert.equal(
+        combineVols([quote("a", null), quote("b", 0.9)], config).vol,
+        0.9
+      );
+      assert.isNull(combineVols([quote("a", null)], config).vol);
+    });
+
+    it("uses an override whatever the other quotes", () => {
+      const { vol, used } = combineVols(
+        [
+          quote("a", 0.7),
+          { source: "static", vol: 5, isOverride: true },
+          quote("b", 0.8),
+        ],
+        config
+      );
+
+      assert.equal(vol, 5);
+      assert.deepEqual(
+        used.map(({ source }) => source),
+        ["static"]
+      );
+    });
+  });
+
+  describe("#getRealizedVol", () => {
+    it("is zero for a constant return", () => {
+      assert.closeTo(getRealizedVol([100, 110, 121, 133.1]), 0, 1e-9);
+    });
+
+    it("annualizes the daily return deviation", () => {
+      const up = Math.exp(0.02);
+      // Daily log returns of +2% and -2%
+      const prices = [100, 100 * up, 100, 100 * up, 100];
+      const deviation = Math.sqrt((4 * 0.02 ** 2) / 3);
+
+      assert.closeTo(getRealizedVol(prices), deviation * Math.sqrt(365), 1e-9);
+    });
+
+    it("needs at least three prices", () => {
+      assert.isNull(getRealizedVol([100, 101]));
+    });
+  });
+
+  describe("#createDeribitSource", () => {
+    it("returns the latest DVOL close", async () => {
+      const urls: string[] = [];
+      const source = createDeribitSource(
+        async (url) => {
+          urls.push(url);
+          return {
+            result: {
+              data: [
+                [NOW * 1000 - 3600000, 60, 61, 59, 60.5],
+                [NOW * 1000, 60.5, 65, 60, 64.2],
+              ],
+            },
+          };
+        },
+        () => NOW * 1000
+      );
+
+      assert.closeTo(await source.getVol("ETH"), 0.642, 1e-9);
+      assert.include(urls[0], "currency=ETH");
+      assert.include(urls[0], `end_timestamp=${NOW * 1000}`);
+    });
+
+    it("does not quote assets without a DVOL index", async () => {
+      const source = createDeribitSource(async () => {
+        throw new Error("unexpected request");
+      });
+
+      assert.isNull(await source.getVol("AAVE"));
+    });
+  });
+
+  describe("#createChainlinkSource", () => {
+    const feed = mockAddress(1);
+    const up = Math.exp(0.05);
+
+    // Hourly rounds since 10 days ago, the price alternating between
+    // 2000 and 2000 * e^0.05 every day
+    const start = NOW - 10 * DAY;
+    const priceAt = (timestamp: number) =>
+      Math.floor((timestamp - start) / DAY) % 2 ? 2000 * up : 2000;
+    const rounds = 10 * 24;
+    const timestampOf = (roundId: BigNumber) =>
+      start + roundId.sub(PHASE).toNumber() * 3600;
+
+    const provider = mockProvider(mockInterface, {
+      [feed]: {
+        latestRound: () => PHASE.add(rounds),
+        getTimestamp: (roundId: BigNumber) => timestampOf(roundId),
+        getAnswer: (roundId: BigNumber) =>
+          parseUnits(priceAt(timestampOf(roundId)).toFixed(8), 8),
+      },
+    });
+
+    it("measures the realized vol of the daily prices", async () => {
+      const source = createChainlinkSource(
+        provider,
+        { ETH: feed },
+        4,
+        () => NOW - 1800
+      );
+
+      const prices = [4, 3, 2, 1].map((day) =>
+        Number(
+          parseUnits(priceAt(NOW - 1800 - day * DAY).toFixed(8), 8).toString()
+        )
+      );
+      prices.push(Number(parseUnits(priceAt(NOW).toFixed(8), 8).toString()));
+
+      assert.closeTo(await source.getVol("ETH"), getRealizedVol(prices), 1e-9);
+      assert.isAbove(await source.getVol("ETH"), 0.5);
+    });
+
+    it("does not quote assets without a feed", async () => {
+      const source = createChainlinkSource(provider, { ETH: feed }, 4);
+
+      assert.isNull(await source.getVol("BTC"));
+    });
+  });
+
+  describe("#getVolQuotes", () => {
+    it("records the error of a failing source", async () => {
+      const failing: VolSource = {
+        name: "failing",
+        getVol: async () => {
+          throw new Error("timeout");
+        },
+      };
+
+      const quotes = await getVolQuotes(
+        [failing, fixedSource("fixed", { ETH: 0.8 })],
+        "ETH"
+      );
+
+      assert.deepEqual(quotes[0], {
+        source: "failing",
+        vol: null,
+        error: "timeout",
+      });
+      assert.equal(quotes[1].vol, 0.8);
+    });
+
+    it("flags override quotes", async () => {
+      const [quote] = await getVolQuotes(
+        [createStaticSource({ APE: 1.2 })],
+        "APE"
+      );
+
+      assert.isTrue(quote.isOverride);
+      assert.equal(quote.vol, 1.2);
+    });
+  });
+
+  describe("#getVolTargets", () => {
+    const oracle = mockAddress(10);
+    const ethOptionId = ethers.utils.id("eth");
+    const aaveOptionId = ethers.utils.id("aave");
+
+    const vaultParams = (underlying: string) => [
+      false,
+      18,
+      underlying,
+      underlying,
+      1,
+      1,
+    ];
+
+    const provider = mockProvider(mockInterface, {
+      [mockAddress(1)]: { vaultParams: () => vaultParams(mockAddress(30)) },
+      [mockAddress(2)]: { vaultParams: () => vaultParams(mockAddress(30)) },
+      [mockAddress(3)]: {
+        optionsPremiumPricer: () => mockAddress(22),
+        vaultParams: () => vaultParams(mockAddress(31)),
+      },
+      [mockAddress(4)]: { vaultParams: () => vaultParams(mockAddress(30)) },
+      [mockAddress(5)]: {},
+      [mockAddress(20)]: {
+        volatilityOracle: () => oracle,
+        optionId: () => ethOptionId,
+      },
+      [mockAddress(21)]: {
+        volatilityOracle: () => mockAddress(11),
+        optionId: () => ethers.utils.id("other"),
+      },
+      [mockAddress(22)]: {
+        volatilityOracle: () => oracle,
+        optionId: () => aaveOptionId,
+      },
+      [mockAddress(30)]: { symbol: () => "WETH" },
+      [mockAddress(31)]: { symbol: () => "AAVE" },
+    });
+
+    it("maps each option ID to the asset of its vaults", async () => {
+      const targets = await getVolTargets(
+        provider,
+        {
+          ETHCall: {
+            address: mockAddress(1),
+            optionsPremiumPricer: mockAddress(20),
+          },
+          STETHCall: {
+            address: mockAddress(2),
+            optionsPremiumPricer: mockAddress(20),
+          },
+          AAVECall: { address: mockAddress(3) },
+          OtherOracle: {
+            address: mockAddress(4),
+            optionsPremiumPricer: mockAddress(21),
+          },
+          Treasury: { address: mockAddress(5) },
+        },
+        oracle,
+        config
+      );
+
+      assert.deepEqual(targets, [
+        { name: "ETHCall, STETHCall", asset: "ETH", optionId: ethOptionId },
+        { name: "AAVECall", asset: "AAVE", optionId: aaveOptionId },
+      ]);
+    });
+  });
+
+  describe("#getVolUpdates", () => {
+    const oracle = mockAddress(10);
+    const targets = [
+      { name: "ETHCall", asset: "ETH", optionId: ethers.utils.id("eth") },
+      { name: "WBTCCall", asset: "BTC", optionId: ethers.utils.id("btc") },
+      { name: "AAVECall", asset: "AAVE", optionId: ethers.utils.id("aave") },
+      { name: "APECall", asset: "APE", optionId: ethers.utils.id("ape") },
+    ];
+    const current: { [optionId: string]: BigNumber } = {
+      [ethers.utils.id("eth")]: parseUnits("0.8", 8),
+      [ethers.utils.id("btc")]: parseUnits("0.6", 8),
+      [ethers.utils.id("aave")]: parseUnits("0", 8),
+      [ethers.utils.id("ape")]: parseUnits("1", 8),
+    };
+    const provider = mockProvider(mockInterface, {
+      // Like ManualVolOracle, vol() is a stub and annualizedVol() holds the vols
+      [oracle]: {
+        vol: () => 0,
+        annualizedVol: (optionId: string) => current[optionId],
+      },
+    });
+    const sources = [
+      fixedSource("deribit", { ETH: 0.81, BTC: 0.7 }),
+      fixedSource("chainlink", { ETH: 0.81, BTC: 0.7, AAVE: 1.1 }),
+    ];
+
+    it("compares the combined vols with the oracle", async () => {
+      const updates = await getVolUpdates(
+        provider,
+        oracle,
+        targets,
+        sources,
+        config
+      );
+
+      assert.deepEqual(
+        updates.map(({ status }) => status),
+        ["unchanged", "update", "update", "noQuote"]
+      );
+      assert.equal(updates[1].next.toString(), "70000000");
+      assert.equal(updates[2].next.toString(), "110000000");
+      assert.isNull(updates[3].next);
+      assert.equal(updates[3].current.toString(), "100000000");
+    });
+
+    it("leaves out vols setAnnualizedVol would revert on", async () => {
+      const updates = await getVolUpdates(
+        provider,
+        oracle,
+        targets.slice(0, 3),
+        [createStaticSource({ ETH: 0.3, BTC: 0.5, AAVE: 4 })],
+        config
+      );
+
+      assert.deepEqual(
+        updates.map(({ status }) => status),
+        ["outOfBounds", "outOfBounds", "outOfBounds"]
+      );
+      assert.equal(updates[0].next.toString(), "30000000");
+      assert.isNull(await populateVolUpdates(oracle, updates));
+    });
+
+    it("writes the vols in bounds when others are out", async () => {
+      const updates = await getVolUpdates(
+        provider,
+        oracle,
+        targets.slice(0, 2),
+        [createStaticSource({ ETH: 0.3, BTC: 0.7 })],
+        config
+      );
+      const tx = await populateVolUpdates(oracle, updates);
+
+      const [optionIds] = new ethers.utils.Interface([
+        "function setAnnualizedVol(bytes32[] optionIds, uint256[] newAnnualizedVols)",
+      ]).decodeFunctionData("setAnnualizedVol", tx.data);
+      assert.deepEqual(optionIds, [ethers.utils.id("btc")]);
+    });
+
+    it("writes the changed vols in one transaction", async () => {
+      const updates = await getVolUpdates(
+        provider,
+        oracle,
+        targets,
+        sources,
+        config
+      );
+      const tx = await populateVolUpdates(oracle, updates);
+
+      const [optionIds, vols] = new ethers.utils.Interface([
+        "function setAnnualizedVol(bytes32[] optionIds, uint256[] newAnnualizedVols)",
+      ]).decodeFunctionData("setAnnualizedVol", tx.data);
+
+      assert.equal(tx.to, ethers.utils.getAddress(oracle));
+      assert.deepEqual(optionIds, [
+        ethers.utils.id("btc"),
+        ethers.utils.id("aave"),
+      ]);
+      assert.deepEqual(
+        vols.map((vol: BigNumber) => vol.toString()),
+        ["70000000", "110000000"]
+      );
+    });
+
+    it("sends nothing when no vol moved", async () => {
+      const updates = await getVolUpdates(
+        provider,
+        oracle,
+        targets.slice(0, 1),
+        sources,
+        config
+      );
+
+      assert.isNull(await populateVolUpdates(oracle, updates));
+    });
+  });
+});
@@ -0,0 +1,122 @@
+import { ethers } from "hardhat";
+import { Contract } from "ethers";
+import { assert } from "../helpers/assertions";
+import * as time from "../helpers/time";
+import {
+  getNextExpiry,
+  getNextFridayExpiry,
+  timestampFromDate,
+} from "../../scripts/helpers/calendar";
+
+const HOUR = 3600;
+// 2000-01-01 to 2100-01-01
+const FROM = 946684800;
+const TO = 4102444800;
+const SAMPLES = 100;
+const TREASURY_PERIODS = [7, 14, 30, 90, 180];
+
+const randomTimestamp = () => FROM + Math.floor(Math.random() * (TO - FROM));
+
+// Random timestamps with the ones next to the 8am expiry and the turn of
+// the day and the month, where the rules change
+const getTimestamps = () => {
+  const timestamps = [...Array(SAMPLES)].map(randomTimestamp);
+
+  for (let i = 0; i < SAMPLES / 10; i++) {
+    const friday8am = getNextFridayExpiry(randomTimestamp());
+    const date = new Date(randomTimestamp() * 1000);
+    const monthStart = timestampFromDate(
+      date.getUTCFullYear(),
+      date.getUTCMonth() + 1,
+      1
+    );
+
+    for (const boundary of [
+      friday8am,
+      friday8am - 8 * HOUR,
+      friday8am + 16 * HOUR,
+      monthStart,
+      monthStart + 8 * HOUR,
+    ]) {
+      timestamps.push(boundary - 1, boundary, boundary + 1);
+    }
+  }
+  return timestamps;
+};
+
+describe("Calendar", () => {
+  let lifecycle: Contract;
+  let lifecycleTreasury: Contract;
+  let lifecycleWithSwap: Contract;
+
+  before(async () => {
+    const VaultLifecycle = await ethers.getContractFactory("VaultLifecycle");
+    const lifecycleLib = await VaultLifecycle.deploy();
+
+    const TestVaultLifecycle = await ethers.getContractFactory(
+      "TestVaultLifecycle",
+      { libraries: { VaultLifecycle: lifecycleLib.address } }
+    );
+    lifecycle = await TestVaultLifecycle.deploy();
+
+    const TestVaultLifecycleTreasury = await ethers.getContractFactory(
+      "TestVaultLifecycleTreasury"
+    );
+    lifecycleTreasury = await TestVaultLifecycleTreasury.deploy();
+
+    const TestVaultLifecycleWithSwap = await ethers.getContractFactory(
+      "TestVaultLifecycleWithSwap"
+    );
+    lifecycleWithSwap = await TestVaultLifecycleWithSwap.deploy();
+  });
+
+  describe("getNextFridayExpiry", () => {
+    it("matches VaultLifecycle.getNextFriday", async () => {
+      for (const timestamp of getTimestamps()) {
+        assert.equal(
+          (await lifecycle.getNextFriday(timestamp)).toNumber(),
+          getNextFridayExpiry(timestamp),
+          `getNextFriday(${timestamp})`
+        );
+      }
+    });
+
+    it("matches VaultLifecycleWithSwap.getNextFriday", async () => {
+      for (const timestamp of getTimestamps()) {
+        assert.equal(
+          (await lifecycleWithSwap.getNextFriday(timestamp)).toNumber(),
+          getNextFridayExpiry(timestamp),
+          `getNextFriday(${timestamp})`
+        );
+      }
+    });
+
+    it("matches the expiry from the current block", async () => {
+      assert.equal(
+        (await lifecycle.getNextFriday(await time.now())).toNumber(),
+        await time.nextFridayExpiry()
+      );
+    });
+  });
+
+  describe("getNextExpiry", () => {
+    TREASURY_PERIODS.forEach((period) => {
+      it(`matches VaultLifecycleTreasury.getNextExpiry with a ${period} day period`, async () => {
+        for (const timestamp of getTimestamps()) {
+          assert.equal(
+            (
+              await lifecycleTreasury.getNextExpiry(timestamp, period)
+            ).toNumber(),
+            getNextExpiry(timestamp, period),
+            `getNextExpiry(${timestamp}, ${period})`
+          );
+        }
+      });
+    });
+
+    it("rejects periods the treasury vault does not accept", async () => {
+      assert.throws(() => getNextExpiry(randomTimestamp(), 1));
+      assert.throws(() => getNextExpiry(randomTimestamp(), 60));
+    });
+  });
+});